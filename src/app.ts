@@ -8,6 +8,7 @@ const path = require('path');
 const logger = require('morgan');
 const wicked = require('wicked-sdk');
 const passport = require('passport');
+const cors = require('cors');
 
 const session = require('express-session');
 // const FileStore = require('session-file-store')(session);
@@ -23,12 +24,14 @@ import { OAuth2IdP } from './providers/oauth2';
 // import { AdfsIdP } from './providers/adfs';
 // import { SamlIdP } from './providers/saml';
 
-import { StatusError } from './common/utils-fail';
+import { StatusError, failMessage } from './common/utils-fail';
 import { SimpleCallback } from './common/types';
 import { WickedAuthServer } from './common/wicked-types';
 
 import { utils } from './common/utils';
 import { utilsOAuth2 } from './common/utils-oauth2';
+import { signingKeys } from './common/signing-keys';
+import { backchannelLogout } from './common/backchannel-logout';
 import { SamlIdP } from './providers/saml';
 
 // Use default options, see https://www.npmjs.com/package/session-file-store
@@ -49,6 +52,13 @@ app.initApp = function (authServerConfig: WickedAuthServer, callback: SimpleCall
     // Store auth Config with application
     app.authConfig = authServerConfig;
 
+    // Keys for signing ID tokens
+    try {
+        signingKeys.init(authServerConfig);
+    } catch (err) {
+        return callback(err);
+    }
+
     if (!wicked.isDevelopmentMode()) {
         app.set('trust proxy', 1);
         // TODO: This is not deal-breaking, as we're in a quite secure surrounding anyway,
@@ -111,6 +121,9 @@ app.initApp = function (authServerConfig: WickedAuthServer, callback: SimpleCall
 
     // And session management
     app.use(session(sessionArgs));
+    // Clients authorized in sessions which expire are notified via their back-channel logout URI
+    backchannelLogout.init(sessionMinutes * 60);
+    app.use(backchannelLogout.touchSession);
     // Initialize Passport
     app.use(passport.initialize());
     app.use(passport.session());
@@ -170,13 +183,47 @@ app.initApp = function (authServerConfig: WickedAuthServer, callback: SimpleCall
         }
     }
 
+    // OpenID Connect UserInfo end point
     app.get(basePath + '/profile', utilsOAuth2.getProfile);
+    app.post(basePath + '/profile', utilsOAuth2.getProfile);
+
+    // Public signing keys; contains all configured keys to allow key rotation
+    app.get(basePath + '/jwks', cors(), function (req, res, next) {
+        debug(basePath + '/jwks');
+        return res.json(signingKeys.getJwks());
+    });
 
+    // Logging out also logs out all clients of the session (back-channel logout), so
+    // it has to be confirmed by the user; a plain link must not be able to do that.
     app.get(basePath + '/logout', function (req, res, next) {
         debug(basePath + '/logout');
+        const csrfToken = utils.createRandomId();
+        req.session.csrfToken = csrfToken;
+        res.render('logout_confirm', {
+            title: 'Log Out',
+            portalUrl: wicked.getExternalPortalUrl(),
+            baseUrl: req.app.get('base_path'),
+            correlationId: req.correlationId,
+            csrfToken: csrfToken,
+            endSessionUrl: 'logout',
+            logoutRequest: {},
+            redirectUri: req.query && req.query.redirect_uri
+        });
+    });
+
+    app.post(basePath + '/logout', function (req, res, next) {
+        debug('POST ' + basePath + '/logout');
+        const expectedCsrfToken = utils.getAndDeleteCsrfToken(req);
+        const csrfToken = req.body._csrf;
+        if (!csrfToken || expectedCsrfToken !== csrfToken)
+            return failMessage(403, 'CSRF validation failed.', next);
+        backchannelLogout.logoutSession(req);
         req.session.destroy();
-        if (req.query && req.query.redirect_uri)
-            return res.redirect(req.query.redirect_uri);
+        // Only redirect back into this application or to the portal; clients have
+        // to use the end_session_endpoint of their API instead.
+        const redirectUri = req.body.redirect_uri;
+        if (redirectUri && isLocalRedirect(redirectUri, basePath))
+            return res.redirect(redirectUri);
         res.render('logout', {
             title: 'Logged out',
             portalUrl: wicked.getExternalPortalUrl(),
@@ -244,3 +291,11 @@ app.initApp = function (authServerConfig: WickedAuthServer, callback: SimpleCall
 
     callback(null);
 };
+
+// Relative paths within this application (not protocol relative "//host" or "/\host"), or portal URLs
+function isLocalRedirect(redirectUri: string, basePath: string): boolean {
+    if (redirectUri.startsWith(basePath + '/') && !/^\/[\/\\]/.test(redirectUri))
+        return true;
+    const portalUrl = wicked.getExternalPortalUrl();
+    return !!portalUrl && (redirectUri === portalUrl || redirectUri.startsWith(portalUrl.replace(/\/$/, '') + '/'));
+}
@@ -0,0 +1,283 @@
+'use strict';
+
+import { SimpleCallback, BackchannelLogoutClient, BackchannelLogoutDelivery, PendingBackchannelLogout } from './types';
+import { WickedSubscriptionInfo } from './wicked-types';
+
+const crypto = require('crypto');
+const request = require('request');
+const wicked = require('wicked-sdk');
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:backchannel-logout');
+import { redisConnection } from './redis-connection';
+import { signingKeys } from './signing-keys';
+import { utils } from './utils';
+import { utilsOAuth2 } from './utils-oauth2';
+
+// OpenID Connect Back-Channel Logout 1.0, section 2.4
+const LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout';
+const LOGOUT_TOKEN_EXPIRES_SECONDS = 120;
+
+// Retries with exponential backoff: 2, 4, 8, 16 seconds after the request timed out
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_SECONDS = 2;
+const REQUEST_TIMEOUT = 5000; // ms
+
+// The sessions by expiry time, the pending deliveries by the time of their next
+// attempt, and the last deliveries
+const SESSIONS_KEY = 'backchannel_sessions';
+const PENDING_KEY = 'backchannel_logout_pending';
+const DELIVERY_LOG_KEY = 'backchannel_logout_log';
+const DELIVERY_LOG_LENGTH = 1000;
+const EXPIRY_CHECK_INTERVAL = 60000; // ms
+const PENDING_CHECK_INTERVAL = 1000; // ms
+
+/**
+ * Keeps track of the clients which were authorized within a session, and notifies them
+ * via their back-channel logout URI (backchannelLogoutUri of the application) when the
+ * user logs out, or when the session expires. Deliveries are kept in redis until they
+ * succeed, so that they are retried by any instance, also after a restart.
+ */
+export class BackchannelLogout {
+
+    private _sessionSeconds: number;
+    private _expiryTimer = null;
+    private _pendingTimer = null;
+
+    constructor() {
+        debug(`constructor()`);
+        // Empty
+    }
+
+    public init(sessionSeconds: number): void {
+        debug(`init(${sessionSeconds})`);
+        this._sessionSeconds = sessionSeconds;
+        if (!this._expiryTimer) {
+            this._expiryTimer = setInterval(() => this.logoutExpiredSessions(), EXPIRY_CHECK_INTERVAL);
+            this._expiryTimer.unref();
+        }
+        if (!this._pendingTimer) {
+            this._pendingTimer = setInterval(() => this.processPendingDeliveries(), PENDING_CHECK_INTERVAL);
+            this._pendingTimer.unref();
+        }
+    }
+
+    // Called for each successful authorization within a session
+    public registerClient = (req, client: BackchannelLogoutClient, callback?: SimpleCallback) => {
+        debug(`registerClient(${client.client_id})`);
+        const sessionKey = this.sessionKey(req.sessionID);
+        const expires = utils.getUtc() + this._sessionSeconds;
+        const redis = redisConnection.getRedis();
+        redis.get(sessionKey, (err, result) => {
+            if (err)
+                return this.done(err, callback);
+            const clients: BackchannelLogoutClient[] = result ? JSON.parse(result) : [];
+            if (!clients.find(c => c.client_id === client.client_id && c.api_id === client.api_id && c.sub === client.sub))
+                clients.push(client);
+            redis.multi()
+                .set(sessionKey, JSON.stringify(clients), 'EX', this.sessionKeySeconds())
+                .zadd(SESSIONS_KEY, expires, sessionKey)
+                .exec((err) => this.done(err, callback));
+        });
+    };
+
+    // Express middleware: The session store extends the session on each request, so the
+    // expiry time of sessions with registered clients has to move along.
+    public touchSession = (req, res, next) => {
+        if (!req.sessionID)
+            return next();
+        const sessionKey = this.sessionKey(req.sessionID);
+        const expires = utils.getUtc() + this._sessionSeconds;
+        const redis = redisConnection.getRedis();
+        // XX: Only sessions which already have clients
+        redis.multi()
+            .zadd(SESSIONS_KEY, 'XX', expires, sessionKey)
+            .expire(sessionKey, this.sessionKeySeconds())
+            .exec((err) => this.done(err));
+        return next();
+    };
+
+    // Notifies all clients of the session; the deliveries (and retries) happen in the background.
+    public logoutSession = (req, callback?: SimpleCallback) => {
+        debug('logoutSession()');
+        if (!req.sessionID)
+            return this.done(null, callback);
+        this.logoutSessionKey(this.sessionKey(req.sessionID), callback);
+    };
+
+    private logoutExpiredSessions(): void {
+        const redis = redisConnection.getRedis();
+        redis.zrangebyscore(SESSIONS_KEY, '-inf', utils.getUtc(), (err, sessionKeys: string[]) => {
+            if (err) {
+                error('logoutExpiredSessions: Could not retrieve expired sessions');
+                error(err);
+                return;
+            }
+            for (let sessionKey of sessionKeys)
+                this.logoutSessionKey(sessionKey);
+        });
+    }
+
+    private logoutSessionKey(sessionKey: string, callback?: SimpleCallback): void {
+        const redis = redisConnection.getRedis();
+        redis.multi()
+            .get(sessionKey)
+            .del(sessionKey)
+            .zrem(SESSIONS_KEY, sessionKey)
+            .exec((err, results) => {
+                if (err)
+                    return this.done(err, callback);
+                // Another instance may have been faster
+                const clients: BackchannelLogoutClient[] = results[0] ? JSON.parse(results[0]) : [];
+                for (let client of clients)
+                    this.notifyClient(client);
+                return this.done(null, callback);
+            });
+    }
+
+    private notifyClient(client: BackchannelLogoutClient): void {
+        wicked.getSubscriptionByClientId(client.client_id, client.api_id, (err, subsInfo: WickedSubscriptionInfo) => {
+            if (err) {
+                warn(`notifyClient: Could not retrieve the subscription for client_id ${client.client_id}`);
+                return;
+            }
+            const logoutUri = subsInfo.application.backchannelLogoutUri;
+            if (!logoutUri)
+                return;
+            this.schedule({
+                id: utils.createRandomId(),
+                client: client,
+                uri: logoutUri,
+                attempt: 1
+            }, 0, (err) => {
+                if (!err)
+                    this.processPendingDeliveries();
+            });
+        });
+    }
+
+    private schedule(pending: PendingBackchannelLogout, delaySeconds: number, callback?: SimpleCallback): void {
+        const redis = redisConnection.getRedis();
+        redis.zadd(PENDING_KEY, utils.getUtc() + delaySeconds, JSON.stringify(pending), (err) => this.done(err, callback));
+    }
+
+    // Every due delivery is claimed by exactly one instance, by removing it from the pending set
+    private processPendingDeliveries(): void {
+        const redis = redisConnection.getRedis();
+        redis.zrangebyscore(PENDING_KEY, '-inf', utils.getUtc(), (err, members: string[]) => {
+            if (err) {
+                error('processPendingDeliveries: Could not retrieve the pending deliveries');
+                error(err);
+                return;
+            }
+            for (let member of members) {
+                redis.zrem(PENDING_KEY, member, (err, removed) => {
+                    if (err || !removed)
+                        return;
+                    this.deliver(JSON.parse(member));
+                });
+            }
+        });
+    }
+
+    private createLogoutToken(client: BackchannelLogoutClient, callback) {
+        const now = utils.getUtc();
+        signingKeys.sign({
+            iss: utilsOAuth2.getIssuer(client.auth_method_id, client.api_id),
+            aud: client.client_id,
+            sub: client.sub,
+            iat: now,
+            exp: now + LOGOUT_TOKEN_EXPIRES_SECONDS,
+            jti: utils.createRandomId(),
+            events: { [LOGOUT_EVENT]: {} }
+        }, callback);
+    }
+
+    // Each attempt gets a new logout token, as a retry may happen after the previous token expired.
+    // The next attempt is scheduled before sending, so that it is not lost if this instance stops.
+    private deliver(pending: PendingBackchannelLogout): void {
+        const client = pending.client;
+        const attempt = pending.attempt;
+        debug(`deliver(${client.client_id}, attempt ${attempt})`);
+        const retry: PendingBackchannelLogout = attempt < MAX_ATTEMPTS ? Object.assign({}, pending, { attempt: attempt + 1 }) : null;
+        const retryDelaySeconds = RETRY_BASE_SECONDS * Math.pow(2, attempt - 1) + REQUEST_TIMEOUT / 1000;
+        const scheduleRetry = (callback: SimpleCallback) => retry ? this.schedule(retry, retryDelaySeconds, callback) : callback(null);
+        scheduleRetry((err) => {
+            // Still attempt this delivery; it is only not retried if it fails
+            if (err)
+                error(`deliver: Could not schedule the next attempt for client_id ${client.client_id}`);
+            this.createLogoutToken(client, (err, logoutToken) => {
+                if (err) {
+                    error(`deliver: Could not create a logout token for client_id ${client.client_id}`);
+                    error(err);
+                    return;
+                }
+                request.post({
+                    url: pending.uri,
+                    form: { logout_token: logoutToken },
+                    timeout: REQUEST_TIMEOUT
+                }, (err, res) => {
+                    // Section 2.8: The RP responds with 200 OK (or 204 No Content)
+                    const success = !err && res && (res.statusCode === 200 || res.statusCode === 204);
+                    const delivery: BackchannelLogoutDelivery = {
+                        client_id: client.client_id,
+                        api_id: client.api_id,
+                        sub: client.sub,
+                        uri: pending.uri,
+                        attempt: attempt,
+                        success: success,
+                        status: res ? res.statusCode : null,
+                        error: err ? err.message : null,
+                        time: utils.getUtc()
+                    };
+                    this.logDelivery(delivery);
+                    if (success && retry) {
+                        const redis = redisConnection.getRedis();
+                        redis.zrem(PENDING_KEY, JSON.stringify(retry), (err) => this.done(err));
+                    }
+                    if (!success && !retry)
+                        warn(`Back-channel logout for client_id ${client.client_id} to ${pending.uri} failed after ${attempt} attempts, giving up.`);
+                });
+            });
+        });
+    }
+
+    private logDelivery(delivery: BackchannelLogoutDelivery): void {
+        if (delivery.success)
+            info(`Back-channel logout delivered to ${delivery.uri} (client_id ${delivery.client_id})`);
+        else
+            warn(`Back-channel logout to ${delivery.uri} (client_id ${delivery.client_id}) failed, attempt ${delivery.attempt}: ${delivery.error || delivery.status}`);
+        const redis = redisConnection.getRedis();
+        redis.multi()
+            .lpush(DELIVERY_LOG_KEY, JSON.stringify(delivery))
+            .ltrim(DELIVERY_LOG_KEY, 0, DELIVERY_LOG_LENGTH - 1)
+            .exec((err) => {
+                if (err) {
+                    debug('logDelivery: Could not write to the delivery log');
+                    debug(err);
+                }
+            });
+    }
+
+    private done(err, callback?: SimpleCallback): void {
+        if (err) {
+            error('Back-channel logout: redis returned an error');
+            error(err);
+        }
+        if (callback)
+            return callback(err);
+    }
+
+    // The clients of a session are kept a bit longer than the session, until the expiry check ran
+    private sessionKeySeconds(): number {
+        return this._sessionSeconds + EXPIRY_CHECK_INTERVAL / 1000;
+    }
+
+    // The session ID is a secret as well
+    private sessionKey(sessionId: string): string {
+        const sha256 = crypto.createHash('sha256');
+        sha256.update(sessionId);
+        return 'backchannel_session:' + sha256.digest('hex');
+    }
+};
+
+export const backchannelLogout = new BackchannelLogout();
@@ -0,0 +1,208 @@
+'use strict';
+
+import { ClientCredentials, ClientCredentialsCallback, ClientCertificate, ExpressHandler } from './types';
+import { WickedSubscriptionInfo } from './wicked-types';
+import { utils } from './utils';
+import { utilsOAuth2 } from './utils-oauth2';
+import { redisConnection } from './redis-connection';
+import { clientCertificate } from './client-certificate';
+import { failOAuth } from './utils-fail';
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:client-auth');
+const wicked = require('wicked-sdk');
+const jwt = require('jsonwebtoken');
+
+// RFC 7523, section 2.2
+const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+// client_secret_jwt is signed with the client secret, private_key_jwt with a registered key
+const CLIENT_SECRET_JWT_ALGORITHMS = ['HS256'];
+const PRIVATE_KEY_JWT_ALGORITHMS = ['RS256', 'ES256'];
+
+export const CLIENT_AUTH_METHODS = ['client_secret_basic', 'client_secret_post', 'client_secret_jwt', 'private_key_jwt',
+    'tls_client_auth', 'self_signed_tls_client_auth', 'none'];
+
+export const clientAuth = {
+
+    /**
+     * Express middleware for the end points which authenticate clients (token, revocation,
+     * introspection etc.). Determines the client authentication method of the request
+     * and puts the client credentials into req.clientCredentials. For the JWT methods, the
+     * assertion is verified here, and the client secret of the subscription is filled in,
+     * as the subsequent calls to Kong need it. The same applies to mutual TLS client
+     * authentication (RFC 8705).
+     */
+    middleware: function (authMethodId: string): ExpressHandler {
+        return function (req, res, next) {
+            // Errors must be returned as JSON
+            req.isTokenFlow = true;
+            clientAuth.getClientCredentials(authMethodId, req, function (err, clientCredentials) {
+                if (err)
+                    return next(err);
+                req.clientCredentials = clientCredentials;
+                return next();
+            });
+        };
+    },
+
+    getClientCredentials: function (authMethodId: string, req, callback: ClientCredentialsCallback): void {
+        debug(`getClientCredentials(${authMethodId})`);
+        // Tokens are bound to the client certificate, regardless of the authentication method
+        const certificate = clientCertificate.get(req);
+        resolveClientCredentials(authMethodId, req, certificate, function (err, clientCredentials) {
+            if (err)
+                return callback(err);
+            if (certificate)
+                clientCredentials.certificate_thumbprint = certificate.thumbprint;
+            return callback(null, clientCredentials);
+        });
+    }
+};
+
+function resolveClientCredentials(authMethodId: string, req, certificate: ClientCertificate, callback: ClientCredentialsCallback): void {
+    const body = req.body || {};
+    const authorization = req.get('authorization');
+    const hasBasic = !!authorization && authorization.startsWith('Basic ');
+    const hasPost = !!body.client_secret;
+    const hasJwt = !!body.client_assertion || !!body.client_assertion_type;
+    // RFC 6749, section 2.3: Only one method per request
+    if ((hasBasic ? 1 : 0) + (hasPost ? 1 : 0) + (hasJwt ? 1 : 0) > 1)
+        return failOAuth(400, 'invalid_request', 'The client must not use more than one authentication method.', callback);
+
+    if (hasBasic) {
+        const credentials = parseBasicAuthorization(authorization);
+        if (!credentials)
+            return failOAuth(401, 'invalid_client', 'Invalid Basic authorization header.', callback);
+        if (body.client_id && body.client_id !== credentials.client_id)
+            return failOAuth(400, 'invalid_request', 'client_id does not match the Basic authorization header.', callback);
+        return callback(null, credentials);
+    }
+    if (hasJwt)
+        return verifyClientAssertion(authMethodId, req, callback);
+    if (!hasPost && certificate && body.client_id)
+        return verifyClientCertificate(req, certificate, callback);
+    return callback(null, {
+        client_id: body.client_id,
+        client_secret: body.client_secret,
+        method: hasPost ? 'client_secret_post' : 'none'
+    });
+}
+
+// RFC 6749, section 2.3.1: client_id and client_secret are form-urlencoded first
+function parseBasicAuthorization(authorization: string): ClientCredentials {
+    const decoded = Buffer.from(authorization.substring(6).trim(), 'base64').toString('utf8');
+    const colon = decoded.indexOf(':');
+    if (colon <= 0)
+        return null;
+    try {
+        return {
+            client_id: decodeURIComponent(decoded.substring(0, colon).replace(/\+/g, ' ')),
+            client_secret: decodeURIComponent(decoded.substring(colon + 1).replace(/\+/g, ' ')),
+            method: 'client_secret_basic'
+        };
+    } catch (err) {
+        return null;
+    }
+}
+
+// RFC 7523, section 3: client_secret_jwt and private_key_jwt
+function verifyClientAssertion(authMethodId: string, req, callback: ClientCredentialsCallback): void {
+    debug('verifyClientAssertion()');
+    const apiId = req.params.apiId;
+    const assertion = req.body.client_assertion;
+    if (req.body.client_assertion_type !== CLIENT_ASSERTION_TYPE)
+        return failOAuth(400, 'invalid_request', `client_assertion_type must be ${CLIENT_ASSERTION_TYPE}.`, callback);
+    const decoded = jwt.decode(assertion, { complete: true });
+    if (!decoded || !decoded.payload || !decoded.payload.sub)
+        return failOAuth(401, 'invalid_client', 'The client assertion is not a valid JWT, or does not contain a "sub" claim.', callback);
+    const clientId = decoded.payload.sub;
+    if (req.body.client_id && req.body.client_id !== clientId)
+        return failOAuth(400, 'invalid_request', 'client_id does not match the client assertion.', callback);
+
+    wicked.getSubscriptionByClientId(clientId, apiId, function (err, subsInfo: WickedSubscriptionInfo) {
+        if (err)
+            return failOAuth(401, 'invalid_client', 'client authentication failed', err, callback);
+        const subscription = subsInfo.subscription;
+        const application = subsInfo.application;
+
+        const isSecretJwt = !!CLIENT_SECRET_JWT_ALGORITHMS.find(a => a === decoded.header.alg);
+        let keys: string[];
+        if (isSecretJwt) {
+            if (!application.confidential || !subscription.clientSecret)
+                return failOAuth(401, 'invalid_client', 'client_secret_jwt requires a confidential client.', callback);
+            keys = [subscription.clientSecret];
+        } else {
+            const kid = decoded.header.kid;
+            keys = (application.publicKeys || []).filter(k => !kid || k.kid === kid).map(k => k.publicKey);
+            if (keys.length === 0)
+                return failOAuth(401, 'invalid_client', `No key registered for the client assertion (kid ${kid}).`, callback);
+        }
+
+        // The audience is the issuer, or the end point the assertion is sent to
+        const issuer = utilsOAuth2.getIssuer(authMethodId, apiId);
+        const verifyOptions = {
+            algorithms: isSecretJwt ? CLIENT_SECRET_JWT_ALGORITHMS : PRIVATE_KEY_JWT_ALGORITHMS,
+            issuer: clientId,
+            audience: [issuer, `${issuer}/token`, `${utils.getExternalUrl()}/${authMethodId}${req.path}`]
+        };
+        let payload = null;
+        let verifyError = null;
+        for (let i = 0; i < keys.length && !payload; ++i) {
+            try {
+                payload = jwt.verify(assertion, keys[i], verifyOptions);
+            } catch (err) {
+                verifyError = err;
+            }
+        }
+        if (!payload)
+            return failOAuth(401, 'invalid_client', `The client assertion could not be verified: ${verifyError.message}`, callback);
+        if (!payload.exp || !payload.jti)
+            return failOAuth(401, 'invalid_client', 'The client assertion must contain "exp" and "jti" claims.', callback);
+
+        // Assertions must not be replayed (RFC 7523, section 3); remember the jti until it expires
+        const ttlSeconds = Math.max(payload.exp - utils.getUtc(), 1);
+        const redis = redisConnection.getRedis();
+        redis.set(`client_assertion_jti:${clientId}:${payload.jti}`, '1', 'EX', ttlSeconds, 'NX', function (err, result) {
+            if (err)
+                return failOAuth(500, 'server_error', 'could not check the client assertion', err, callback);
+            if (!result)
+                return failOAuth(401, 'invalid_client', 'The client assertion has already been used.', callback);
+            return callback(null, {
+                client_id: clientId,
+                client_secret: subscription.clientSecret,
+                method: isSecretJwt ? 'client_secret_jwt' : 'private_key_jwt'
+            });
+        });
+    });
+}
+
+// RFC 8705, section 2: tls_client_auth and self_signed_tls_client_auth. Clients whose
+// application is not configured for either are treated as public clients.
+function verifyClientCertificate(req, certificate: ClientCertificate, callback: ClientCredentialsCallback): void {
+    debug('verifyClientCertificate()');
+    const clientId = req.body.client_id;
+    wicked.getSubscriptionByClientId(clientId, req.params.apiId, function (err, subsInfo: WickedSubscriptionInfo) {
+        if (err)
+            return failOAuth(401, 'invalid_client', 'client authentication failed', err, callback);
+        const application = subsInfo.application;
+        let method = null;
+        if (application.tlsClientAuthSubjectDn) {
+            if (certificate.verified && certificate.subject_dn === clientCertificate.normalizeDn(application.tlsClientAuthSubjectDn))
+                method = 'tls_client_auth';
+        } else if (application.tlsClientCertificates) {
+            if (application.tlsClientCertificates.find(c => clientCertificate.getThumbprint(c) === certificate.thumbprint))
+                method = 'self_signed_tls_client_auth';
+        } else {
+            return callback(null, {
+                client_id: clientId,
+                method: 'none'
+            });
+        }
+        if (!method)
+            return failOAuth(401, 'invalid_client', 'The client certificate does not match the registered certificate.', callback);
+        return callback(null, {
+            client_id: clientId,
+            client_secret: subsInfo.subscription.clientSecret,
+            method: method
+        });
+    });
+}
@@ -0,0 +1,85 @@
+'use strict';
+
+import { ClientCertificate } from './types';
+import { utils } from './utils';
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:client-certificate');
+const crypto = require('crypto');
+
+export const clientCertificate = {
+
+    /**
+     * Returns the TLS client certificate of the request, or null. The auth server itself
+     * only listens on plain HTTP, so TLS has to be terminated by a proxy, which forwards
+     * the client certificate in the "clientCertificateHeader" (e.g. nginx's
+     * $ssl_client_escaped_cert). Without that header configured, there are no client
+     * certificates.
+     *
+     * Anybody can send these headers, so they are only trusted if the request also
+     * carries the shared secret of the proxy ("clientCertificateSecret", in the
+     * "clientCertificateSecretHeader"). The proxy must set the certificate headers
+     * itself, overwriting whatever the client sent.
+     */
+    get: function (req): ClientCertificate {
+        const authServer = utils.app.authConfig;
+        if (!authServer.clientCertificateHeader)
+            return null;
+        if (!authServer.clientCertificateSecretHeader || !authServer.clientCertificateSecret) {
+            warn('clientCertificateHeader is configured without clientCertificateSecretHeader and clientCertificateSecret; ignoring forwarded client certificates.');
+            return null;
+        }
+        if (!utils.safeEquals(req.get(authServer.clientCertificateSecretHeader), authServer.clientCertificateSecret))
+            return null;
+        const headerValue = req.get(authServer.clientCertificateHeader);
+        if (!headerValue)
+            return null;
+        let pem: string;
+        try {
+            pem = decodeURIComponent(headerValue);
+        } catch (err) {
+            // Treated like no certificate at all; the TLS client authentication then fails
+            warn(`The ${authServer.clientCertificateHeader} header is not a valid URL encoded certificate.`);
+            return null;
+        }
+        const der = pemToDer(pem);
+        if (!der)
+            return null;
+        // Only the proxy can have verified the certificate chain
+        const subjectDn = authServer.clientCertificateSubjectHeader ? req.get(authServer.clientCertificateSubjectHeader) : null;
+        return {
+            thumbprint: clientCertificate.getThumbprint(der),
+            subject_dn: subjectDn ? clientCertificate.normalizeDn(subjectDn) : null,
+            verified: !!subjectDn
+        };
+    },
+
+    /**
+     * The "x5t#S256" thumbprint of a certificate (RFC 8705, section 3.1): the base64url
+     * encoded SHA-256 hash of the DER encoding. Accepts DER buffers and PEM strings.
+     */
+    getThumbprint: function (certificate): string {
+        const der = Buffer.isBuffer(certificate) ? certificate : pemToDer(certificate);
+        if (!der)
+            return null;
+        const sha256 = crypto.createHash('sha256');
+        sha256.update(der);
+        return utils.base64UrlEncode(sha256.digest());
+    },
+
+    // Good enough for comparing DNs: no whitespace around separators, attribute names in upper case
+    normalizeDn: function (dn: string): string {
+        return String(dn).split(/\s*,\s*/).map(rdn => {
+            const eq = rdn.indexOf('=');
+            if (eq < 0)
+                return rdn.trim();
+            return rdn.substring(0, eq).trim().toUpperCase() + '=' + rdn.substring(eq + 1).trim();
+        }).join(',');
+    }
+};
+
+function pemToDer(pem: string): Buffer {
+    const match = /-----BEGIN CERTIFICATE-----([\s\S]+?)-----END CERTIFICATE-----/.exec(pem);
+    if (!match)
+        return null;
+    return Buffer.from(match[1].replace(/\s/g, ''), 'base64');
+}
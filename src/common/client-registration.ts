@@ -0,0 +1,318 @@
+'use strict';
+
+import { utils } from './utils';
+import { SimpleCallback } from './types';
+import { WickedApi, WickedApiSettings, WickedApplication, WickedSubscription, WickedSubscriptionInfo, WickedClientRegistration } from './wicked-types';
+import { failOAuth, failJson } from './utils-fail';
+import { redirectUris } from './redirect-uris';
+import { CLIENT_AUTH_METHODS } from './client-auth';
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:client-registration');
+const Router = require('express').Router;
+const crypto = require('crypto');
+const wicked: any = require('wicked-sdk');
+
+// Client metadata as per RFC 7591, section 2; only what maps to wicked applications
+interface ClientMetadata {
+    client_name: string,
+    redirect_uris: string[],
+    grant_types: string[],
+    token_endpoint_auth_method: string
+}
+
+// RFC 7591, section 3.2.1, and RFC 7592, section 3
+interface ClientInformation extends ClientMetadata {
+    client_id: string,
+    client_secret?: string,
+    client_secret_expires_at?: number,
+    registration_access_token: string,
+    registration_client_uri: string
+}
+
+interface ClientMetadataCallback {
+    (err, clientMetadata?: ClientMetadata): void
+}
+
+interface ClientContext {
+    config: WickedClientRegistration,
+    apiInfo: WickedApi,
+    subsInfo?: WickedSubscriptionInfo
+}
+
+interface ClientContextCallback {
+    (err, clientContext?: ClientContext): void
+}
+
+/**
+ * Dynamic client registration (RFC 7591) and client configuration (RFC 7592)
+ * for a specific API. Registered clients are wicked applications, owned by the
+ * configured owner user, with a subscription to the API.
+ */
+export class ClientRegistration {
+
+    private authMethodId: string;
+    private router: any;
+
+    constructor(authMethodId: string) {
+        debug(`constructor(${authMethodId})`);
+        this.authMethodId = authMethodId;
+
+        // The API ID is part of the path this router is mounted at
+        this.router = new Router({ mergeParams: true });
+        this.router.use(function (req, res, next) {
+            // Errors are returned as JSON (see error handler in GenericOAuth2Router)
+            req.isTokenFlow = true;
+            return next();
+        });
+
+        this.router.post('/', this.registerClient);
+        this.router.get('/:clientId', this.readClient);
+        this.router.put('/:clientId', this.updateClient);
+        this.router.delete('/:clientId', this.deleteClient);
+    }
+
+    public getRouter() {
+        return this.router;
+    }
+
+    private registerClient = (req, res, next) => {
+        const apiId = req.params.apiId;
+        debug(`registerClient(${this.authMethodId}, ${apiId})`);
+        const instance = this;
+        this.getContext(apiId, function (err, context) {
+            if (err)
+                return next(err);
+            // Registration requires the initial access token
+            if (!utils.safeEquals(getBearerToken(req), context.config.initialAccessToken))
+                return failOAuth(401, 'invalid_token', 'Invalid or missing initial access token.', next);
+            instance.validateMetadata(context.apiInfo, req.body, function (err, metadata) {
+                if (err)
+                    return next(err);
+
+                const ownerUserId = context.config.ownerUserId;
+                const appInfo = {
+                    id: 'dcr-' + crypto.randomBytes(8).toString('hex'),
+                    name: metadata.client_name,
+                    redirectUri: metadata.redirect_uris[0],
+                    redirectUris: metadata.redirect_uris,
+                    confidential: metadata.token_endpoint_auth_method !== 'none',
+                    grantTypes: metadata.grant_types,
+                    tokenEndpointAuthMethod: metadata.token_endpoint_auth_method
+                } as WickedApplication;
+                const subscription = {
+                    application: appInfo.id,
+                    api: apiId,
+                    plan: context.config.plan,
+                    auth: 'oauth2'
+                };
+                wicked.apiPost('/applications', appInfo, ownerUserId, function (err) {
+                    if (err)
+                        return failOAuth(400, 'invalid_client_metadata', 'Could not create the application.', err, next);
+                    wicked.apiPost(`/applications/${appInfo.id}/subscriptions`, subscription, ownerUserId, function (err, subsInfo: WickedSubscription) {
+                        // Subscriptions which need approval do not have credentials yet
+                        if (err || !subsInfo.clientId) {
+                            instance.deleteApplication(appInfo.id, ownerUserId);
+                            return failOAuth(400, 'invalid_client_metadata', 'Could not create a subscription with client credentials.', err, next);
+                        }
+                        info(`Registered application ${appInfo.id} for API ${apiId} (dynamic client registration)`);
+                        return res.status(201).json(instance.makeClientInformation(apiId, metadata, subsInfo));
+                    });
+                });
+            });
+        });
+    }
+
+    private readClient = (req, res, next) => {
+        const apiId = req.params.apiId;
+        debug(`readClient(${this.authMethodId}, ${apiId})`);
+        const instance = this;
+        this.getClientContext(req, function (err, context) {
+            if (err)
+                return next(err);
+            const metadata = instance.makeMetadata(context.apiInfo, context.subsInfo.application);
+            return res.json(instance.makeClientInformation(apiId, metadata, context.subsInfo.subscription));
+        });
+    }
+
+    private updateClient = (req, res, next) => {
+        const apiId = req.params.apiId;
+        const clientId = req.params.clientId;
+        debug(`updateClient(${this.authMethodId}, ${apiId})`);
+        const instance = this;
+        this.getClientContext(req, function (err, context) {
+            if (err)
+                return next(err);
+            if (req.body.client_id !== clientId)
+                return failOAuth(400, 'invalid_client_metadata', 'The client_id does not match.', next);
+            instance.validateMetadata(context.apiInfo, req.body, function (err, metadata) {
+                if (err)
+                    return next(err);
+                const appId = context.subsInfo.application.id;
+                const appPatch = {
+                    id: appId,
+                    name: metadata.client_name,
+                    redirectUri: metadata.redirect_uris[0],
+                    redirectUris: metadata.redirect_uris,
+                    confidential: metadata.token_endpoint_auth_method !== 'none',
+                    grantTypes: metadata.grant_types,
+                    tokenEndpointAuthMethod: metadata.token_endpoint_auth_method
+                };
+                wicked.apiPatch(`/applications/${appId}`, appPatch, context.config.ownerUserId, function (err) {
+                    if (err)
+                        return failOAuth(400, 'invalid_client_metadata', 'Could not update the application.', err, next);
+                    return res.json(instance.makeClientInformation(apiId, metadata, context.subsInfo.subscription));
+                });
+            });
+        });
+    }
+
+    private deleteClient = (req, res, next) => {
+        const apiId = req.params.apiId;
+        debug(`deleteClient(${this.authMethodId}, ${apiId})`);
+        const instance = this;
+        this.getClientContext(req, function (err, context) {
+            if (err)
+                return next(err);
+            instance.deleteApplication(context.subsInfo.application.id, context.config.ownerUserId, function (err) {
+                if (err)
+                    return failJson(500, 'Could not delete the application.', err, next);
+                return res.status(204).send('');
+            });
+        });
+    }
+
+    private getContext(apiId: string, callback: ClientContextCallback): void {
+        const authMethod = utils.getAuthMethod(this.authMethodId);
+        if (!authMethod || !authMethod.clientRegistration)
+            return failJson(404, 'Dynamic client registration is not enabled.', callback);
+        utils.getApiInfo(apiId, function (err, apiInfo) {
+            if (err)
+                return failJson(404, `API ${apiId} not found.`, callback);
+            return callback(null, {
+                config: authMethod.clientRegistration,
+                apiInfo: apiInfo
+            });
+        });
+    }
+
+    // For the client configuration end point; checks the registration access token
+    private getClientContext(req, callback: ClientContextCallback): void {
+        const apiId = req.params.apiId;
+        const clientId = req.params.clientId;
+        const instance = this;
+        this.getContext(apiId, function (err, context) {
+            if (err)
+                return callback(err);
+            wicked.getSubscriptionByClientId(clientId, apiId, function (err, subsInfo: WickedSubscriptionInfo) {
+                // Do not tell whether the client exists (RFC 7592, section 2)
+                if (err || !subsInfo.subscription ||
+                    !utils.safeEquals(getBearerToken(req), instance.makeRegistrationAccessToken(subsInfo.subscription)))
+                    return failOAuth(401, 'invalid_token', 'Invalid registration access token.', callback);
+                context.subsInfo = subsInfo;
+                return callback(null, context);
+            });
+        });
+    }
+
+    private validateMetadata(apiInfo: WickedApi, body, callback: ClientMetadataCallback): void {
+        debug('validateMetadata()');
+        if (!body.client_name || typeof (body.client_name) !== 'string')
+            return failOAuth(400, 'invalid_client_metadata', 'client_name is missing.', callback);
+        if (!Array.isArray(body.redirect_uris) || body.redirect_uris.length === 0)
+            return failOAuth(400, 'invalid_redirect_uri', 'redirect_uris is missing or empty.', callback);
+        for (let redirectUri of body.redirect_uris) {
+            const redirectUriError = redirectUris.validate(redirectUri);
+            if (redirectUriError)
+                return failOAuth(400, 'invalid_redirect_uri', redirectUriError, callback);
+        }
+        // private_key_jwt would require registering keys, which is not supported here
+        const authMethod = body.token_endpoint_auth_method || 'client_secret_basic';
+        if (authMethod === 'private_key_jwt' || !CLIENT_AUTH_METHODS.find(m => m === authMethod))
+            return failOAuth(400, 'invalid_client_metadata', `Unsupported token_endpoint_auth_method ${authMethod}.`, callback);
+        const grantTypes: string[] = body.grant_types || ['authorization_code'];
+        if (!Array.isArray(grantTypes))
+            return failOAuth(400, 'invalid_client_metadata', 'grant_types must be an array.', callback);
+        const supportedGrantTypes = getGrantTypes(apiInfo, authMethod !== 'none');
+        const unsupported = grantTypes.filter(g => !supportedGrantTypes.find(s => s === g));
+        if (unsupported.length > 0)
+            return failOAuth(400, 'invalid_client_metadata', `Unsupported grant_types for this API and client type: ${unsupported.join(', ')}.`, callback);
+        return callback(null, {
+            client_name: body.client_name,
+            redirect_uris: body.redirect_uris,
+            grant_types: grantTypes,
+            token_endpoint_auth_method: authMethod
+        });
+    }
+
+    // Applications which were not registered dynamically have no registered grant
+    // types and authentication method; these are derived from the API's settings.
+    private makeMetadata(apiInfo: WickedApi, appInfo: WickedApplication): ClientMetadata {
+        return {
+            client_name: appInfo.name,
+            redirect_uris: redirectUris.getRegistered(appInfo),
+            grant_types: appInfo.grantTypes || getGrantTypes(apiInfo, appInfo.confidential),
+            token_endpoint_auth_method: appInfo.tokenEndpointAuthMethod || (appInfo.confidential ? 'client_secret_basic' : 'none')
+        };
+    }
+
+    private makeClientInformation(apiId: string, metadata: ClientMetadata, subscription: WickedSubscription): ClientInformation {
+        const clientInfo = {
+            client_id: subscription.clientId,
+            registration_access_token: this.makeRegistrationAccessToken(subscription),
+            registration_client_uri: `${utils.getExternalUrl()}/${this.authMethodId}/api/${apiId}/clients/${subscription.clientId}`
+        } as ClientInformation;
+        if (metadata.token_endpoint_auth_method !== 'none') {
+            clientInfo.client_secret = subscription.clientSecret;
+            clientInfo.client_secret_expires_at = 0;
+        }
+        return Object.assign(clientInfo, metadata);
+    }
+
+    // The registration access token is derived from the client credentials, so
+    // that it does not have to be stored anywhere.
+    private makeRegistrationAccessToken(subscription: WickedSubscription): string {
+        const hmac = crypto.createHmac('sha256', subscription.clientSecret);
+        hmac.update(`registration:${subscription.clientId}`);
+        return utils.base64UrlEncode(hmac.digest());
+    }
+
+    private deleteApplication(appId: string, ownerUserId: string, callback?: SimpleCallback): void {
+        debug(`deleteApplication(${appId})`);
+        wicked.apiDelete(`/applications/${appId}`, ownerUserId, function (err) {
+            if (err) {
+                error(`Could not delete application ${appId}`);
+                error(err);
+            }
+            if (callback)
+                return callback(err);
+        });
+    }
+}
+
+function getBearerToken(req): string {
+    const authorization = req.get('authorization');
+    if (!authorization || !authorization.startsWith('Bearer '))
+        return null;
+    return authorization.substring(7);
+}
+
+function getGrantTypes(apiInfo: WickedApi, confidential: boolean): string[] {
+    const settings = apiInfo.settings || ({} as WickedApiSettings);
+    const grantTypes = [];
+    if (settings.enable_authorization_code)
+        grantTypes.push('authorization_code');
+    if (settings.enable_implicit_grant)
+        grantTypes.push('implicit');
+    if (settings.enable_client_credentials && confidential)
+        grantTypes.push('client_credentials');
+    if (settings.enable_password_grant)
+        grantTypes.push('password');
+    if (settings.enable_authorization_code || settings.enable_password_grant)
+        grantTypes.push('refresh_token');
+    if (settings.enable_device_grant)
+        grantTypes.push('urn:ietf:params:oauth:grant-type:device_code');
+    if (settings.enable_jwt_bearer_grant)
+        grantTypes.push('urn:ietf:params:oauth:grant-type:jwt-bearer');
+    if (settings.enable_token_exchange)
+        grantTypes.push('urn:ietf:params:oauth:grant-type:token-exchange');
+    return grantTypes;
+}
@@ -0,0 +1,123 @@
+'use strict';
+
+import { SimpleCallback, StringCallback, DeviceAuthorization, DeviceAuthorizationCallback } from "./types";
+
+const crypto = require('crypto');
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:device-store');
+import { redisConnection } from './redis-connection';
+import { utils } from './utils';
+import { failMessage } from './utils-fail';
+
+// RFC 8628, section 6.1: Consonants only, to avoid accidental words, and
+// no easily confused characters.
+const USER_CODE_CHARACTERS = 'BCDFGHJKLMNPQRSTVWXZ';
+const USER_CODE_LENGTH = 8;
+
+export class DeviceStore {
+
+    constructor() {
+        debug(`constructor()`);
+        // Empty
+    }
+
+    // Stores a new device authorization and returns the device code; the user_code
+    // of the device authorization is filled in here.
+    public create = (deviceAuthorization: DeviceAuthorization, callback: StringCallback) => {
+        debug('create()');
+        const deviceCode = utils.base64UrlEncode(crypto.randomBytes(32));
+        const userCode = this.createUserCode();
+        deviceAuthorization.user_code = userCode;
+        const ttlSeconds = deviceAuthorization.expires - utils.getUtc();
+        const redis = redisConnection.getRedis();
+        // NX: Just fail in the (unlikely) case of a user code collision
+        redis.set(this.userCodeKey(userCode), deviceCode, 'EX', ttlSeconds, 'NX', (err, result) => {
+            if (err)
+                return callback(err);
+            if (!result)
+                return failMessage(500, 'create: User code collision, please retry.', callback);
+            this.store(deviceCode, deviceAuthorization, (err) => {
+                if (err)
+                    return callback(err);
+                return callback(null, deviceCode);
+            });
+        });
+    };
+
+    public store = (deviceCode: string, deviceAuthorization: DeviceAuthorization, callback: SimpleCallback) => {
+        debug('store()');
+        const ttlSeconds = deviceAuthorization.expires - utils.getUtc();
+        if (ttlSeconds <= 0)
+            return failMessage(400, 'store: The device authorization has expired.', callback);
+        const redis = redisConnection.getRedis();
+        redis.set(this.deviceCodeKey(deviceCode), JSON.stringify(deviceAuthorization), 'EX', ttlSeconds, callback);
+    };
+
+    public retrieve = (deviceCode: string, callback: DeviceAuthorizationCallback) => {
+        debug('retrieve()');
+        const redis = redisConnection.getRedis();
+        redis.get(this.deviceCodeKey(deviceCode), function (err, result) {
+            if (err)
+                return callback(err);
+            return callback(null, JSON.parse(result));
+        });
+    };
+
+    public getDeviceCode = (userCode: string, callback: StringCallback) => {
+        debug('getDeviceCode()');
+        const redis = redisConnection.getRedis();
+        redis.get(this.userCodeKey(userCode), callback);
+    };
+
+    public delete = (deviceCode: string, userCode: string, callback?: SimpleCallback) => {
+        debug('delete()');
+        const redis = redisConnection.getRedis();
+        redis.del(this.deviceCodeKey(deviceCode), this.userCodeKey(userCode), (err) => {
+            if (err) {
+                debug('delete: redis.del returned an error');
+                debug(err);
+            }
+            if (callback)
+                return callback(err);
+        });
+    };
+
+    // Users may enter the code in lower case and with or without dashes
+    public normalizeUserCode(userCode: string): string {
+        return String(userCode).toUpperCase().replace(/[^A-Z]/g, '');
+    }
+
+    // "ABCD-EFGH"
+    public formatUserCode(userCode: string): string {
+        const half = USER_CODE_LENGTH / 2;
+        return `${userCode.substring(0, half)}-${userCode.substring(half)}`;
+    }
+
+    private createUserCode(): string {
+        // Rejection sampling: bytes beyond the last full multiple of the alphabet
+        // length would make the first characters more likely.
+        const limit = 256 - (256 % USER_CODE_CHARACTERS.length);
+        let userCode = '';
+        while (userCode.length < USER_CODE_LENGTH) {
+            const bytes = crypto.randomBytes(USER_CODE_LENGTH);
+            for (let i = 0; i < bytes.length && userCode.length < USER_CODE_LENGTH; ++i) {
+                if (bytes[i] < limit)
+                    userCode += USER_CODE_CHARACTERS[bytes[i] % USER_CODE_CHARACTERS.length];
+            }
+        }
+        return userCode;
+    }
+
+    // The device code is a secret, so it is only stored hashed (like tokens in the profile store)
+    private deviceCodeKey(deviceCode: string): string {
+        const sha256 = crypto.createHash('sha256');
+        sha256.update(deviceCode);
+        return 'device_code:' + sha256.digest('hex');
+    }
+
+    private userCodeKey(userCode: string): string {
+        return 'device_user_code:' + this.normalizeUserCode(userCode);
+    }
+};
+
+export const deviceStore = new DeviceStore();
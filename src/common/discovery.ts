@@ -0,0 +1,95 @@
+'use strict';
+
+import { AuthServerMetadata } from './types';
+import { WickedApi, WickedApiSettings } from './wicked-types';
+import { utils } from './utils';
+import { utilsOAuth2 } from './utils-oauth2';
+import { signingKeys } from './signing-keys';
+import { CLIENT_AUTH_METHODS } from './client-auth';
+import { DPOP_ALGORITHMS } from './dpop';
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:discovery');
+
+export const discovery = {
+
+    /**
+     * Builds the OpenID Connect Discovery/RFC 8414 metadata document for
+     * the given auth method and API. The supported response and grant types
+     * are derived from the API's settings; the "id_token" response types are
+     * only advertised if the API has an "openid" scope.
+     */
+    getMetadata: function (authMethodId: string, apiInfo: WickedApi): AuthServerMetadata {
+        debug(`getMetadata(${authMethodId}, ${apiInfo.id})`);
+        const externalUrl = utils.getExternalUrl();
+        const issuer = utilsOAuth2.getIssuer(authMethodId, apiInfo.id);
+        const settings = apiInfo.settings || ({} as WickedApiSettings);
+        const scopes = settings.scopes ? Object.keys(settings.scopes) : [];
+        const hasOpenId = !!scopes.find(s => s === 'openid');
+
+        const responseTypes = [];
+        const grantTypes = [];
+        if (settings.enable_authorization_code) {
+            responseTypes.push('code');
+            if (hasOpenId)
+                responseTypes.push('code id_token');
+            grantTypes.push('authorization_code');
+        }
+        if (settings.enable_implicit_grant) {
+            responseTypes.push('token');
+            if (hasOpenId) {
+                responseTypes.push('id_token');
+                responseTypes.push('id_token token');
+            }
+            grantTypes.push('implicit');
+        }
+        if (settings.enable_client_credentials)
+            grantTypes.push('client_credentials');
+        if (settings.enable_password_grant)
+            grantTypes.push('password');
+        if (settings.enable_device_grant)
+            grantTypes.push('urn:ietf:params:oauth:grant-type:device_code');
+        if (settings.enable_jwt_bearer_grant)
+            grantTypes.push('urn:ietf:params:oauth:grant-type:jwt-bearer');
+        if (settings.enable_token_exchange)
+            grantTypes.push('urn:ietf:params:oauth:grant-type:token-exchange');
+        if (settings.enable_authorization_code || settings.enable_password_grant || settings.enable_device_grant)
+            grantTypes.push('refresh_token');
+
+        const metadata: AuthServerMetadata = {
+            issuer: issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            pushed_authorization_request_endpoint: `${issuer}/par`,
+            require_pushed_authorization_requests: !!settings.require_pushed_authorization_requests,
+            userinfo_endpoint: `${externalUrl}/profile`,
+            end_session_endpoint: `${issuer}/logout`,
+            backchannel_logout_supported: true,
+            backchannel_logout_session_supported: false,
+            revocation_endpoint: `${issuer}/revoke`,
+            introspection_endpoint: `${issuer}/introspect`,
+            jwks_uri: `${externalUrl}/jwks`,
+            scopes_supported: scopes,
+            response_types_supported: responseTypes,
+            response_modes_supported: ['query', 'fragment', 'form_post'],
+            grant_types_supported: grantTypes,
+            subject_types_supported: ['public', 'pairwise'],
+            id_token_signing_alg_values_supported: signingKeys.getAlgorithms(),
+            token_endpoint_auth_methods_supported: CLIENT_AUTH_METHODS,
+            token_endpoint_auth_signing_alg_values_supported: ['HS256', 'RS256', 'ES256'],
+            code_challenge_methods_supported: ['S256', 'plain'],
+            tls_client_certificate_bound_access_tokens: true,
+            request_parameter_supported: true,
+            request_uri_parameter_supported: true,
+            require_request_uri_registration: true,
+            request_object_signing_alg_values_supported: ['RS256', 'ES256'],
+            claims_parameter_supported: true,
+            dpop_signing_alg_values_supported: DPOP_ALGORITHMS
+        };
+        if (settings.enable_device_grant)
+            metadata.device_authorization_endpoint = `${issuer}/device_authorization`;
+        const authMethod = utils.getAuthMethod(authMethodId);
+        if (authMethod && authMethod.clientRegistration)
+            metadata.registration_endpoint = `${issuer}/clients`;
+        return metadata;
+    }
+};
@@ -0,0 +1,106 @@
+'use strict';
+
+import { ExpressHandler, Jwk, StringCallback } from './types';
+import { redisConnection } from './redis-connection';
+import { utils } from './utils';
+import { utilsJwk } from './utils-jwk';
+import { failOAuth } from './utils-fail';
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:dpop');
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+// RFC 9449, section 4.2
+const DPOP_PROOF_TYPE = 'dpop+jwt';
+export const DPOP_ALGORITHMS = ['RS256', 'ES256'];
+// Proofs are accepted if "iat" is at most this far in the past (or the future, clock skew)
+const PROOF_MAX_AGE_SECONDS = 60;
+
+export const dpop = {
+
+    /**
+     * Express middleware for the token end point: If the request carries a DPoP
+     * header, the proof is validated, and the thumbprint of its key is put into
+     * req.dpopThumbprint. The issued tokens are then bound to that key.
+     */
+    middleware: function (authMethodId: string): ExpressHandler {
+        return function (req, res, next) {
+            if (!req.get('dpop'))
+                return next();
+            const htu = `${utils.getExternalUrl()}/${authMethodId}${req.path}`;
+            dpop.verifyProof(req, htu, null, function (err, thumbprint) {
+                if (err)
+                    return next(err);
+                req.dpopThumbprint = thumbprint;
+                return next();
+            });
+        };
+    },
+
+    /**
+     * Validates the DPoP proof of the request (RFC 9449, section 4.3) and returns the
+     * JWK thumbprint (RFC 7638) of its key. If the proof accompanies an access token
+     * (at the UserInfo end point), it must contain the hash of the token ("ath").
+     */
+    verifyProof: function (req, htu: string, accessToken: string, callback: StringCallback): void {
+        debug('verifyProof()');
+        const proof = req.get('dpop');
+        if (!proof || proof.indexOf(',') >= 0)
+            return failOAuth(400, 'invalid_dpop_proof', 'Exactly one DPoP proof is required.', callback);
+        const decoded = jwt.decode(proof, { complete: true });
+        if (!decoded || !decoded.header || !decoded.payload)
+            return failOAuth(400, 'invalid_dpop_proof', 'The DPoP proof is not a valid JWT.', callback);
+        const header = decoded.header;
+        if (header.typ !== DPOP_PROOF_TYPE)
+            return failOAuth(400, 'invalid_dpop_proof', `The "typ" of a DPoP proof must be "${DPOP_PROOF_TYPE}".`, callback);
+        if (!DPOP_ALGORITHMS.find(a => a === header.alg))
+            return failOAuth(400, 'invalid_dpop_proof', `Unsupported DPoP proof algorithm, supported are ${DPOP_ALGORITHMS.join(', ')}.`, callback);
+        const jwk: Jwk = header.jwk;
+        if (!jwk || typeof jwk !== 'object' || jwk.d)
+            return failOAuth(400, 'invalid_dpop_proof', 'The DPoP proof must contain a public key in its "jwk" header.', callback);
+
+        let payload = null;
+        let thumbprint = null;
+        try {
+            payload = jwt.verify(proof, utilsJwk.jwkToPem(jwk), { algorithms: [header.alg] });
+            thumbprint = utilsJwk.getThumbprint(jwk);
+        } catch (err) {
+            return failOAuth(400, 'invalid_dpop_proof', `The DPoP proof could not be verified: ${err.message}`, callback);
+        }
+        if (!payload.jti || !payload.htm || !payload.htu || !payload.iat)
+            return failOAuth(400, 'invalid_dpop_proof', 'The DPoP proof must contain "jti", "htm", "htu" and "iat" claims.', callback);
+        if (payload.htm !== req.method)
+            return failOAuth(400, 'invalid_dpop_proof', `The "htm" of the DPoP proof does not match the request method ${req.method}.`, callback);
+        if (stripQuery(payload.htu) !== htu)
+            return failOAuth(400, 'invalid_dpop_proof', 'The "htu" of the DPoP proof does not match the request URI.', callback);
+        const now = utils.getUtc();
+        if (Math.abs(now - payload.iat) > PROOF_MAX_AGE_SECONDS)
+            return failOAuth(400, 'invalid_dpop_proof', 'The DPoP proof is too old, or issued in the future.', callback);
+        if (accessToken && payload.ath !== hashAccessToken(accessToken))
+            return failOAuth(400, 'invalid_dpop_proof', 'The "ath" of the DPoP proof does not match the access token.', callback);
+
+        // Proofs must not be replayed (section 11.1); remember the jti as long as the proof is accepted
+        const redis = redisConnection.getRedis();
+        redis.set(`dpop_jti:${thumbprint}:${payload.jti}`, '1', 'EX', 2 * PROOF_MAX_AGE_SECONDS, 'NX', function (err, result) {
+            if (err)
+                return failOAuth(500, 'server_error', 'could not check the DPoP proof', err, callback);
+            if (!result)
+                return failOAuth(400, 'invalid_dpop_proof', 'The DPoP proof has already been used.', callback);
+            return callback(null, thumbprint);
+        });
+    }
+};
+
+// Section 4.3: "htu" is compared without query and fragment
+function stripQuery(uri: string): string {
+    if (typeof uri !== 'string')
+        return null;
+    return uri.split('#')[0].split('?')[0];
+}
+
+// Section 4.2: base64url encoded SHA-256 hash of the access token
+function hashAccessToken(accessToken: string): string {
+    const sha256 = crypto.createHash('sha256');
+    sha256.update(accessToken);
+    return utils.base64UrlEncode(sha256.digest());
+}
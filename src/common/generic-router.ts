@@ -1,7 +1,7 @@
 'use strict';
 
 import * as async from 'async';
-import { AuthRequest, AuthResponse, OidcProfile, EmailMissingHandler, ExpressHandler, IdentityProvider, AuthResponseCallback, TokenRequest, AccessTokenCallback, AccessToken } from './types';
+import { AuthRequest, AuthResponse, OidcProfile, OidcProfileCallback, EmailMissingHandler, ExpressHandler, IdentityProvider, AuthResponseCallback, TokenRequest, AccessTokenCallback, AccessToken, CodeProfile, SimpleCallback, OAuth2Request, TokenRevocationRequest, TokenIntrospectionRequest, LogoutRequest } from './types';
 import { profileStore } from './profile-store'
 const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:generic-router');
 const wicked: any = require('wicked-sdk');
@@ -11,12 +11,24 @@ import { tokens } from '../kong-oauth2/tokens';
 
 const Router = require('express').Router;
 const qs = require('querystring');
+const cors = require('cors');
+const { URL } = require('url');
 
 import { utils } from './utils';
 import { utilsOAuth2 } from './utils-oauth2';
 import { failMessage, failError, failOAuth, makeError, failJson } from './utils-fail';
 import { WickedApiScopes, WickedGrantCollection, WickedGrant, WickedUserInfo, WickedUserCreateInfo, WickedApiCallback, WickedScopeGrant } from './wicked-types';
 import { GrantManager } from './grant-manager';
+import { discovery } from './discovery';
+import { deviceStore } from './device-store';
+import { responseMode } from './response-mode';
+import { ClientRegistration } from './client-registration';
+import { clientAuth } from './client-auth';
+import { backchannelLogout } from './backchannel-logout';
+import { refreshTokenStore } from './refresh-token-store';
+import { pairwiseSubject } from './pairwise-subject';
+import { jwtAccessTokens } from './jwt-access-tokens';
+import { dpop } from './dpop';
 
 const ERROR_TIMEOUT = 500; // ms
 
@@ -34,6 +46,8 @@ export class GenericOAuth2Router {
         this.initOAuthRouter();
         const grantManager = new GrantManager(this.authMethodId);
         this.oauthRouter.use('/grants', grantManager.getRouter());
+        const clientRegistration = new ClientRegistration(this.authMethodId);
+        this.oauthRouter.use('/api/:apiId/clients', clientRegistration.getRouter());
     }
 
     public getRouter() {
@@ -70,6 +84,21 @@ export class GenericOAuth2Router {
                 method: 'post',
                 uri: '/grant',
                 handler: this.createGrantPostHandler(this.authMethodId)
+            },
+            {
+                method: 'post',
+                uri: '/selectaccount',
+                handler: this.createSelectAccountPostHandler(this.authMethodId)
+            },
+            {
+                method: 'get',
+                uri: '/device',
+                handler: this.createDeviceHandler(this.authMethodId)
+            },
+            {
+                method: 'post',
+                uri: '/device',
+                handler: this.createDevicePostHandler(this.authMethodId)
             }
         ];
         // Spread operator, fwiw.
@@ -95,18 +124,25 @@ export class GenericOAuth2Router {
                 if (req.isTokenFlow) {
                     // Return a plain error message in JSON
                     error(err);
-                    return res.json({ error: err.oauthError, error_desription: err.message });
+                    return res.status(err.status || 400).json({ error: err.oauthError, error_description: err.message });
                 }
 
-                // Check for authorization calls
-                if (utils.isLoggedIn(req, instance.authMethodId)) {
-                    const sessionData = utils.getSession(req, instance.authMethodId);
-                    // We need an auth request to see how to answer
-                    if (sessionData.authRequest && sessionData.authRequest.redirect_uri) {
-                        // We must create a redirect with the error message
-                        const redirectUri = `${sessionData.authRequest.redirect_uri}?error=${qs.escape(err.oauthError)}&error_description=${qs.escape(err.message)}`;
-                        return res.redirect(redirectUri);
-                    }
+                // Check for authorization calls; this does not depend on whether the user is
+                // logged in (e.g. prompt=none, or an invalid scope), only on the auth request.
+                const sessionData = req.session ? utils.getSession(req, instance.authMethodId) : null;
+                // We need an auth request with a verified redirect_uri to see how to answer
+                const authRequest = sessionData ? sessionData.authRequest : null;
+                if (authRequest && authRequest.redirect_uri && authRequest.redirectUriValid) {
+                    // We must return the error message to the client, in the same
+                    // way as a successful response would be returned.
+                    let mode = authRequest.response_mode;
+                    if (!mode || responseMode.validate(authRequest.response_type, mode))
+                        mode = responseMode.getDefault(authRequest.response_type);
+                    return responseMode.respond(res, authRequest.redirect_uri, mode, {
+                        error: err.oauthError,
+                        error_description: err.message,
+                        state: authRequest.state
+                    });
                 }
             }
 
@@ -334,6 +370,70 @@ export class GenericOAuth2Router {
         };
     }
 
+    public createDeviceHandler(authMethodId): ExpressHandler {
+        debug(`createDeviceHandler(${authMethodId})`);
+        return (req, res, next) => {
+            debug(`deviceHandler(${authMethodId})`);
+
+            if (!utils.isLoggedIn(req, authMethodId)) {
+                // User is not logged in; make sure we do that first
+                return utils.loginAndRedirectBack(req, res, authMethodId);
+            }
+
+            const viewModel = utils.createViewModel(req, authMethodId);
+            // Pre-filled if the user came via the verification_uri_complete
+            viewModel.userCode = req.query.user_code || '';
+
+            return res.render('device', viewModel);
+        };
+    }
+
+    public createDevicePostHandler(authMethodId): ExpressHandler {
+        debug(`createDevicePostHandler(${authMethodId})`);
+        const instance = this;
+        return (req, res, next) => {
+            debug(`devicePostHandler(${authMethodId})`);
+
+            const body = req.body;
+            const expectedCsrfToken = utils.getAndDeleteCsrfToken(req);
+            const csrfToken = body._csrf;
+            const userCode = body.user_code;
+
+            if (!utils.isLoggedIn(req, authMethodId))
+                return failMessage(403, 'You must be logged in to authorize a device.', next);
+            if (!csrfToken || expectedCsrfToken !== csrfToken)
+                return setTimeout(failMessage, ERROR_TIMEOUT, 403, 'CSRF validation failed.', next);
+            if (!userCode)
+                return failMessage(400, 'Please enter the code which is displayed on your device.', next);
+
+            deviceStore.getDeviceCode(userCode, (err, deviceCode) => {
+                if (err)
+                    return failError(500, err, next);
+                if (!deviceCode)
+                    return setTimeout(failMessage, ERROR_TIMEOUT, 404, 'The given code is invalid or has expired.', next);
+                deviceStore.retrieve(deviceCode, (err, deviceAuthorization) => {
+                    if (err)
+                        return failError(500, err, next);
+                    if (!deviceAuthorization || deviceAuthorization.status !== 'pending')
+                        return setTimeout(failMessage, ERROR_TIMEOUT, 404, 'The given code is invalid or has expired.', next);
+
+                    // Now continue as with a regular authorization request; this checks
+                    // the registration and asks for the scope grants, if needed.
+                    const authRequest = instance.initAuthRequest(req);
+                    authRequest.api_id = deviceAuthorization.api_id;
+                    authRequest.client_id = deviceAuthorization.client_id;
+                    authRequest.app_id = deviceAuthorization.app_id;
+                    authRequest.trusted = deviceAuthorization.trusted;
+                    authRequest.scope = deviceAuthorization.scope;
+                    authRequest.device_code = deviceCode;
+
+                    const authResponse = utils.getAuthResponse(req, authMethodId);
+                    return instance.continueAuthorizeFlow(req, res, next, authResponse);
+                });
+            });
+        };
+    }
+
     createEmailMissingHandler(authMethodId, continueAuthenticate): EmailMissingHandler {
         debug(`createEmailMissingHandler(${authMethodId})`);
         return (req, res, next, customId) => {
@@ -405,82 +505,120 @@ export class GenericOAuth2Router {
             const apiId = req.params.apiId;
             debug(`/api/${apiId}/authorize`);
 
-            const clientId = req.query.client_id;
-            const responseType = req.query.response_type;
-            const givenRedirectUri = req.query.redirect_uri;
-            const givenState = req.query.state;
-            const givenScope = req.query.scope;
-            const givenPrompt = req.query.prompt;
-
+            // Reset the auth request first; errors must not be returned to the redirect_uri
+            // of a previous auth request.
             const authRequest = instance.initAuthRequest(req);
-            authRequest.api_id = apiId;
-            authRequest.client_id = clientId;
-            authRequest.response_type = responseType;
-            authRequest.redirect_uri = givenRedirectUri;
-            authRequest.state = givenState;
-            authRequest.scope = givenScope;
-            authRequest.prompt = givenPrompt;
-
-            // Validate parameters first now (TODO: This is pbly feasible centrally,
-            // it will be the same for all Auth Methods).
-            utilsOAuth2.validateAuthorizeRequest(authRequest, function (err, validationResult) {
-                if (err) {
+
+            // The parameters are either in the query, were pushed before (RFC 9126), or
+            // are in a signed request object (RFC 9101).
+            utilsOAuth2.getAuthorizeParameters(instance.authMethodId, apiId, req.query, function (err, params) {
+                if (err)
                     return next(err);
-                }
 
-                // Is it a trusted application?
-                authRequest.trusted = validationResult.trusted;
+                authRequest.api_id = apiId;
+                authRequest.client_id = params.client_id;
+                authRequest.response_type = params.response_type;
+                authRequest.redirect_uri = params.redirect_uri;
+                authRequest.state = params.state;
+                authRequest.scope = params.scope;
+                authRequest.prompt = params.prompt;
+                authRequest.code_challenge = params.code_challenge;
+                authRequest.code_challenge_method = params.code_challenge_method;
+                authRequest.nonce = params.nonce;
+                authRequest.response_mode = params.response_mode;
+                authRequest.max_age = params.max_age;
+                authRequest.login_hint = params.login_hint;
+                authRequest.claims = params.claims;
+
+                // Validate parameters first now (TODO: This is pbly feasible centrally,
+                // it will be the same for all Auth Methods).
+                utilsOAuth2.validateAuthorizeRequest(authRequest, function (err, validationResult) {
+                    if (err) {
+                        return next(err);
+                    }
+
+                    // Is it a trusted application?
+                    authRequest.trusted = validationResult.trusted;
 
-                utilsOAuth2.validateApiScopes(
-                    authRequest.api_id,
-                    authRequest.scope,
-                    authRequest.trusted,
-                    (err, scopeValidationResult) => {
-                        if (err)
-                            return next(err);
-
-                        // Rewrite the scope to an array which resulted from the validation.
-                        // Note that this is not the granted scopes, but the scopes that this
-                        // application requests, and we have (only) validated that the scopes
-                        // are present. If the application is not trusted, it may be that we
-                        // will ask the user to grant the scope rights to the application later
-                        // on.
-                        authRequest.scope = scopeValidationResult.validatedScopes;
-                        // Did we add/change the scopes passed in?
-                        authRequest.scopesDiffer = scopeValidationResult.scopesDiffer;
-
-                        let isLoggedIn = utils.isLoggedIn(req, instance.authMethodId);
-                        // Borrowed from OpenID Connect, check for prompt request for implicit grant
-                        // http://openid.net/specs/openid-connect-implicit-1_0.html#RequestParameters
-                        if (authRequest.response_type === 'token') {
-                            switch (authRequest.prompt) {
-                                case 'none':
-                                    if (!isLoggedIn)
-                                        return failOAuth(401, 'login_required', 'user must be logged in interactively, cannot authorize without logged in user.', next);
-                                    return instance.authorizeFlow(req, res, next);
-                                case 'login':
-                                    // Force login; wipe session data
-                                    if (isLoggedIn) {
-                                        delete req.session[instance.authMethodId].authResponse;
-                                        isLoggedIn = false;
-                                    }
-                                    break;
+                    utilsOAuth2.validateApiScopes(
+                        authRequest.api_id,
+                        authRequest.scope,
+                        authRequest.trusted,
+                        (err, scopeValidationResult) => {
+                            if (err)
+                                return next(err);
+
+                            // Rewrite the scope to an array which resulted from the validation.
+                            // Note that this is not the granted scopes, but the scopes that this
+                            // application requests, and we have (only) validated that the scopes
+                            // are present. If the application is not trusted, it may be that we
+                            // will ask the user to grant the scope rights to the application later
+                            // on.
+                            authRequest.scope = scopeValidationResult.validatedScopes;
+                            // Did we add/change the scopes passed in?
+                            authRequest.scopesDiffer = scopeValidationResult.scopesDiffer;
+
+                            let isLoggedIn = utils.isLoggedIn(req, instance.authMethodId);
+                            // OpenID Connect Core, 3.1.2.1: prompt and max_age, for all response types
+                            let forceLogin = utilsOAuth2.hasPrompt(authRequest, 'login');
+                            if (isLoggedIn && authRequest.max_age !== undefined) {
+                                const authTime = utils.getSession(req, instance.authMethodId).authTime;
+                                if (!authTime || utils.getUtc() - authTime > authRequest.max_age)
+                                    forceLogin = true;
+                            }
+                            if (utilsOAuth2.hasPrompt(authRequest, 'none') && (!isLoggedIn || forceLogin)) {
+                                // OpenID Connect Core, 3.1.2.6: The error goes to the client, also
+                                // for silent renew in an iframe.
+                                return responseMode.respond(res, authRequest.redirect_uri, authRequest.response_mode, {
+                                    error: 'login_required',
+                                    error_description: 'user must be logged in interactively, cannot authorize without logged in user.',
+                                    state: authRequest.state
+                                });
+                            }
+                            if (isLoggedIn && forceLogin) {
+                                // Force login; wipe session data
+                                delete req.session[instance.authMethodId].authResponse;
+                                isLoggedIn = false;
+                            }
+                            // Let the user choose between the current account and logging in with another one;
+                            // without a session, the login page is the account selection.
+                            if (isLoggedIn && utilsOAuth2.hasPrompt(authRequest, 'select_account'))
+                                return instance.renderSelectAccount(req, res, next);
+                            // We're fine. Check for pre-existing sessions.
+                            if (isLoggedIn) {
+                                const authResponse = utils.getAuthResponse(req, instance.authMethodId);
+                                return instance.continueAuthorizeFlow(req, res, next, authResponse);
                             }
-                        }
-                        // We're fine. Check for pre-existing sessions.
-                        if (isLoggedIn) {
-                            const authResponse = utils.getAuthResponse(req, instance.authMethodId);
-                            return instance.continueAuthorizeFlow(req, res, next, authResponse);
-                        }
 
-                        // Not logged in, or forced login
-                        return instance.idp.authorizeWithUi(req, res, next, authRequest);
-                    });
+                            // Not logged in, or forced login
+                            return instance.idp.authorizeWithUi(req, res, next, authRequest);
+                        });
+                });
+            });
+        });
+
+        // Pushed authorization requests (RFC 9126); the client then passes the returned
+        // request_uri to the authorize end point.
+        this.oauthRouter.post('/api/:apiId/par', clientAuth.middleware(this.authMethodId), function (req, res, next) {
+            const apiId = req.params.apiId;
+            debug(`/api/${apiId}/par`);
+            // Make the error handler return JSON
+            req.isTokenFlow = true;
+            const parRequest: OAuth2Request = {
+                api_id: apiId,
+                auth_method: req.app.get('server_name') + ':' + instance.authMethodId,
+                client_id: req.clientCredentials.client_id,
+                client_secret: req.clientCredentials.client_secret
+            };
+            utilsOAuth2.pushAuthorizationRequest(instance.authMethodId, parRequest, req.body, function (err, parResponse) {
+                if (err)
+                    return next(err);
+                return res.status(201).json(parResponse);
             });
         });
 
         // !!!
-        this.oauthRouter.post('/api/:apiId/token', function (req, res, next) {
+        this.oauthRouter.post('/api/:apiId/token', clientAuth.middleware(this.authMethodId), dpop.middleware(this.authMethodId), function (req, res, next) {
             const apiId = req.params.apiId;
             debug(`/api/${apiId}/token`);
             // Full switch/case on things to do, for all flows
@@ -498,44 +636,193 @@ export class GenericOAuth2Router {
             utilsOAuth2.validateTokenRequest(tokenRequest, function (err) {
                 if (err)
                     return next(err);
-                // Ok, we know we have something which could work (all data)
-                const handleTokenResult = function (err, accessToken: AccessToken): void {
+                utilsOAuth2.validateRegisteredClient(tokenRequest, req.clientCredentials.method, function (err) {
                     if (err)
-                        return failError(400, err, next);
-                    if (accessToken.error)
-                        return failOAuth(400, accessToken.error, accessToken.error_description, next);
-                    if (accessToken.session_data) {
-                        profileStore.registerTokenOrCode(accessToken, tokenRequest.api_id, accessToken.session_data, (err) => {
+                        return next(err);
+                    // Ok, we know we have something which could work (all data)
+                    const handleTokenResult = function (err, accessToken: AccessToken): void {
+                        if (err)
+                            return failError(400, err, next);
+                        if (accessToken.error)
+                            return failOAuth(400, accessToken.error, accessToken.error_description, next);
+                        const thumbprint = req.clientCredentials.certificate_thumbprint;
+                        const dpopThumbprint = tokenRequest.dpop_jkt;
+                        // DPoP-bound tokens have to be presented with a proof (RFC 9449, section 5)
+                        if (dpopThumbprint)
+                            accessToken.token_type = 'DPoP';
+                        // The JWT access token (if the API wants one) is created last, as it
+                        // contains claims of the profile.
+                        const issuer = utilsOAuth2.getIssuer(instance.authMethodId, tokenRequest.api_id);
+                        const respond = (profile: OidcProfile) => {
+                            jwtAccessTokens.issue(issuer, tokenRequest, profile, accessToken, (err) => {
+                                if (err)
+                                    return failError(500, err, next);
+                                return res.status(200).json(accessToken);
+                            });
+                        };
+                        if (!accessToken.session_data && !thumbprint && !dpopThumbprint && !accessToken.refresh_token)
+                            return respond(null);
+                        instance.addIdToken(tokenRequest, accessToken, (err) => {
                             if (err)
                                 return failError(500, err, next);
-                            delete accessToken.session_data;
-                            return res.status(200).json(accessToken);
+                            // Certificate-bound (RFC 8705, section 3) or DPoP-bound (RFC 9449, section 6)
+                            // access token; the binding is stored with the profile, also for tokens
+                            // without a user (client credentials).
+                            const profile = accessToken.session_data || ({} as OidcProfile);
+                            if (thumbprint || dpopThumbprint) {
+                                profile.cnf = {};
+                                if (thumbprint)
+                                    profile.cnf['x5t#S256'] = thumbprint;
+                                if (dpopThumbprint)
+                                    profile.cnf.jkt = dpopThumbprint;
+                            }
+                            profileStore.registerTokenOrCode(accessToken, tokenRequest.api_id, profile, (err) => {
+                                if (err)
+                                    return failError(500, err, next);
+                                delete accessToken.session_data;
+                                if (!accessToken.refresh_token)
+                                    return respond(profile);
+                                // The refresh token keeps the profile and the binding for its whole lifetime
+                                profileStore.storeRefreshToken(accessToken.refresh_token, tokenRequest.api_id, profile, (err) => {
+                                    if (err)
+                                        return failError(500, err, next);
+                                    return respond(profile);
+                                });
+                            });
                         });
-                    } else {
-                        return res.status(200).json(accessToken);
+                    };
+
+                    switch (tokenRequest.grant_type) {
+                        case 'client_credentials':
+                            // This is generically available for most auth methods
+                            return utilsOAuth2.tokenClientCredentials(tokenRequest, handleTokenResult);
+                        case 'authorization_code':
+                            // Use the generic version here as well
+                            return utilsOAuth2.tokenAuthorizationCode(tokenRequest, handleTokenResult);
+                        case 'password':
+                            // This has to be done specifically
+                            return instance.tokenPasswordGrant(tokenRequest, handleTokenResult);
+                        case 'refresh_token':
+                            // This as well
+                            return instance.tokenRefreshToken(tokenRequest, handleTokenResult);
+                        case 'urn:ietf:params:oauth:grant-type:jwt-bearer':
+                            // Needs to map the assertion to a user, like the password grant
+                            return instance.tokenJwtBearer(tokenRequest, handleTokenResult);
+                        case 'urn:ietf:params:oauth:grant-type:token-exchange':
+                            return utilsOAuth2.tokenExchange(tokenRequest, handleTokenResult);
+                        case 'urn:ietf:params:oauth:grant-type:device_code':
+                            // The user has already been authenticated via the /device end point
+                            return utilsOAuth2.tokenDeviceCode(tokenRequest, handleTokenResult);
                     }
-                };
+                    // This should not be possible
+                    return failOAuth(400, 'unsupported_grant_type', `invalid grant type ${tokenRequest.grant_type}`, next);
+                });
+            });
+        });
 
-                switch (tokenRequest.grant_type) {
-                    case 'client_credentials':
-                        // This is generically available for most auth methods
-                        return utilsOAuth2.tokenClientCredentials(tokenRequest, handleTokenResult);
-                    case 'authorization_code':
-                        // Use the generic version here as well
-                        return utilsOAuth2.tokenAuthorizationCode(tokenRequest, handleTokenResult);
-                    case 'password':
-                        // This has to be done specifically
-                        return instance.tokenPasswordGrant(tokenRequest, handleTokenResult);
-                    case 'refresh_token':
-                        // This as well
-                        return instance.tokenRefreshToken(tokenRequest, handleTokenResult);
-                }
-                // This should not be possible
-                return failOAuth(400, 'unsupported_grant_type', `invalid grant type ${tokenRequest.grant_type}`, next);
+        // Device authorization (RFC 8628); the user then authorizes the device
+        // via the /device end point.
+        this.oauthRouter.post('/api/:apiId/device_authorization', clientAuth.middleware(this.authMethodId), function (req, res, next) {
+            const apiId = req.params.apiId;
+            debug(`/api/${apiId}/device_authorization`);
+            // Make the error handler return JSON
+            req.isTokenFlow = true;
+            const deviceRequest: OAuth2Request = {
+                api_id: apiId,
+                auth_method: req.app.get('server_name') + ':' + instance.authMethodId,
+                client_id: req.clientCredentials.client_id,
+                client_secret: req.clientCredentials.client_secret,
+                scope: req.body.scope
+            };
+            utilsOAuth2.authorizeDevice(instance.authMethodId, deviceRequest, function (err, deviceResponse) {
+                if (err)
+                    return next(err);
+                return res.status(200).json(deviceResponse);
             });
         });
 
-        this.oauthRouter.post('/register', (req, res, next) => {
+        // Token revocation (RFC 7009)
+        this.oauthRouter.post('/api/:apiId/revoke', clientAuth.middleware(this.authMethodId), function (req, res, next) {
+            const apiId = req.params.apiId;
+            debug(`/api/${apiId}/revoke`);
+            // Make the error handler return JSON
+            req.isTokenFlow = true;
+            const revocationRequest: TokenRevocationRequest = {
+                api_id: apiId,
+                auth_method: req.app.get('server_name') + ':' + instance.authMethodId,
+                client_id: req.clientCredentials.client_id,
+                client_secret: req.clientCredentials.client_secret,
+                token: req.body.token,
+                token_type_hint: req.body.token_type_hint
+            };
+            utilsOAuth2.revokeToken(revocationRequest, function (err) {
+                if (err)
+                    return next(err);
+                return res.status(200).send('');
+            });
+        });
+
+        // Token introspection (RFC 7662)
+        this.oauthRouter.post('/api/:apiId/introspect', clientAuth.middleware(this.authMethodId), function (req, res, next) {
+            const apiId = req.params.apiId;
+            debug(`/api/${apiId}/introspect`);
+            // Make the error handler return JSON
+            req.isTokenFlow = true;
+            const introspectionRequest: TokenIntrospectionRequest = {
+                api_id: apiId,
+                auth_method: req.app.get('server_name') + ':' + instance.authMethodId,
+                client_id: req.clientCredentials.client_id,
+                client_secret: req.clientCredentials.client_secret,
+                token: req.body.token,
+                token_type_hint: req.body.token_type_hint
+            };
+            const authorization = req.get('authorization');
+            if (authorization && authorization.startsWith('Bearer '))
+                introspectionRequest.introspection_secret = authorization.substring(7);
+            utilsOAuth2.introspectToken(instance.authMethodId, introspectionRequest, function (err, introspection) {
+                if (err)
+                    return next(err);
+                return res.status(200).json(introspection);
+            });
+        });
+
+        // OpenID Connect RP-Initiated Logout (end_session_endpoint)
+        this.oauthRouter.get('/api/:apiId/logout', function (req, res, next) {
+            debug(`GET /api/${req.params.apiId}/logout`);
+            return instance.endSession(req, res, next, req.query, false);
+        });
+
+        this.oauthRouter.post('/api/:apiId/logout', function (req, res, next) {
+            debug(`POST /api/${req.params.apiId}/logout`);
+            // Either posted by the client, or by the confirmation page (with CSRF token)
+            const confirmed = req.body._action === 'logout';
+            if (confirmed) {
+                const expectedCsrfToken = utils.getAndDeleteCsrfToken(req);
+                const csrfToken = req.body._csrf;
+                if (!csrfToken || expectedCsrfToken !== csrfToken)
+                    return setTimeout(failMessage, ERROR_TIMEOUT, 403, 'CSRF validation failed.', next);
+            }
+            return instance.endSession(req, res, next, req.body, confirmed);
+        });
+
+        // Discovery (OpenID Connect Discovery 1.0 and RFC 8414); the issuer is
+        // specific to auth method and API, so the metadata is as well.
+        const discoveryHandler = function (req, res, next) {
+            const apiId = req.params.apiId;
+            debug(`/api/${apiId}/.well-known metadata`);
+            utils.getApiInfo(apiId, function (err, apiInfo) {
+                if (err)
+                    return failMessage(404, `API ${apiId} not found.`, next);
+                const authMethod = `${req.app.get('server_name')}:${instance.authMethodId}`;
+                if (!apiInfo.authMethods || !apiInfo.authMethods.find(m => m === authMethod))
+                    return failMessage(404, `API ${apiId} does not support auth method ${instance.authMethodId}.`, next);
+                return res.json(discovery.getMetadata(instance.authMethodId, apiInfo));
+            });
+        };
+        this.oauthRouter.get('/api/:apiId/.well-known/openid-configuration', cors(), discoveryHandler);
+        this.oauthRouter.get('/api/:apiId/.well-known/oauth-authorization-server', cors(), discoveryHandler);
+
+        this.oauthRouter.post('/register',(req, res, next) => {
             // ...
             debug(`/register`);
 
@@ -617,6 +904,13 @@ export class GenericOAuth2Router {
 
         // Extra TODO:
         // - Pass-through APIs do not create local users
+
+        // Remember when the user actually authenticated (auth_time in OpenID Connect);
+        // for already logged in users, the authResponse from the session is passed in.
+        const authSession = utils.getSession(req, this.authMethodId);
+        if (authSession && authSession.authResponse !== authResponse)
+            authSession.authTime = utils.getUtc();
+
         this.checkUserFromAuthResponse(authResponse, (err, authResponse) => {
             if (err)
                 return failMessage(500, 'checkUserFromAuthResponse: ' + err.message, next);
@@ -686,6 +980,8 @@ export class GenericOAuth2Router {
 
             if (!regInfo) {
                 // User does not have a registration here, we need to get one
+                if (utilsOAuth2.hasPrompt(utils.getAuthRequest(req, this.authMethodId), 'none'))
+                    return failOAuth(400, 'interaction_required', 'user needs to register for the API interactively', next);
                 return this.renderRegister(req, res, next);
             } else {
                 // User already has a registration, create a suitable profile
@@ -696,13 +992,38 @@ export class GenericOAuth2Router {
                     // This will override the default user profile which is already
                     // present, but that is fine.
                     authResponse.profile = profile;
-                    return this.authorizeFlow(req, res, next);
+                    this.essentialClaimsFlow(poolId, regInfo, req, res, next);
                 });
             }
         });
     }
 
-    private renderRegister(req, res, next) {
+    // If the client requested essential claims (claims parameter) which the registration
+    // could supply, but does not contain, the user is asked once to complete the registration.
+    private essentialClaimsFlow(poolId, regInfo, req, res, next) {
+        debug('essentialClaimsFlow()');
+
+        const authRequest = utils.getAuthRequest(req, this.authMethodId);
+        const profile = utils.getAuthResponse(req, this.authMethodId).profile;
+        const missingClaims = utilsOAuth2.getMissingEssentialClaims(authRequest.claims, profile);
+        if (missingClaims.length === 0 || authRequest.essentialClaimsRequested)
+            return this.authorizeFlow(req, res, next);
+        utils.getPoolInfo(poolId, (err, poolInfo) => {
+            if (err)
+                return failError(500, err, next);
+            const registrationClaims = Object.keys(poolInfo.properties).map(p => poolInfo.properties[p].oidcClaim);
+            const suppliableClaims = missingClaims.filter(c => !!registrationClaims.find(r => r === c));
+            // Essential claims we can't get are not an error (OpenID Connect Core, 5.5.1)
+            if (suppliableClaims.length === 0)
+                return this.authorizeFlow(req, res, next);
+            if (utilsOAuth2.hasPrompt(authRequest, 'none'))
+                return failOAuth(400, 'interaction_required', 'user needs to complete the registration for the API interactively', next);
+            authRequest.essentialClaimsRequested = true;
+            return this.renderRegister(req, res, next, regInfo, suppliableClaims);
+        });
+    }
+
+    private renderRegister(req, res, next, regInfo?, missingClaims?: string[]) {
         debug('renderRegister()');
 
         const authResponse = utils.getAuthResponse(req, this.authMethodId);
@@ -720,6 +1041,9 @@ export class GenericOAuth2Router {
             viewModel.customId = authResponse.customId;
             viewModel.defaultProfile = authResponse.defaultProfile;
             viewModel.poolInfo = poolInfo;
+            // When completing an existing registration
+            viewModel.registration = regInfo || {};
+            viewModel.missingClaims = missingClaims;
             const nonce = utils.createRandomId();
             utils.getSession(req, this.authMethodId).registrationNonce = nonce;
             viewModel.nonce = nonce;
@@ -787,8 +1111,10 @@ export class GenericOAuth2Router {
                 }
                 const grantsList = grantsInfo.grants;
 
-                // Returns a list of scope names which need to be granted access to
-                const missingGrants = instance.diffGrants(grantsList, desiredScopesList);
+                // Returns a list of scope names which need to be granted access to; with
+                // prompt=consent, the user has to grant all scopes again.
+                const missingGrants = utilsOAuth2.hasPrompt(authRequest, 'consent') ?
+                    desiredScopesList : instance.diffGrants(grantsList, desiredScopesList);
 
                 if (missingGrants.length === 0) {
                     debug('All grants are already given; continue authorize flow.');
@@ -797,6 +1123,8 @@ export class GenericOAuth2Router {
                 }
                 debug('Missing grants:');
                 debug(missingGrants);
+                if (utilsOAuth2.hasPrompt(authRequest, 'none'))
+                    return failOAuth(400, 'consent_required', 'user needs to grant scopes to the application interactively', next);
 
                 // We need additional scopes granted to the application; for that
                 // we need to gather some information on the API (get the scope list).
@@ -887,13 +1215,16 @@ export class GenericOAuth2Router {
             switch (action) {
                 case "deny":
                     warn(`User ${authResponse.userId} denied access to API ${authRequest.api_id} for application ${authRequest.app_id}, failing.`);
+                    if (authRequest.device_code)
+                        return instance.finishDeviceAuthorization(req, res, next, 'denied');
                     failOAuth(403, 'access_denied', 'Access to the API was denied by the user', next);
                     return;
 
                 case "allow":
                     info(`User ${authResponse.userId} granted access to API ${authRequest.api_id} for application ${authRequest.app_id}.`);
                     const grantList = grantData.existingGrants;
-                    grantData.missingGrants.forEach(g => grantList.push({ scope: g }));
+                    // With prompt=consent, the missing grants may already exist
+                    grantData.missingGrants.filter(g => !grantList.find(e => e.scope === g)).forEach(g => grantList.push({ scope: g }));
                     const userGrantInfo: WickedGrant = {
                         userId: authResponse.userId,
                         apiId: authRequest.api_id,
@@ -915,13 +1246,104 @@ export class GenericOAuth2Router {
         };
     };
 
+    private renderSelectAccount(req, res, next): void {
+        debug(`renderSelectAccount(${this.authMethodId})`);
+        const profile = utils.getAuthResponse(req, this.authMethodId).profile;
+        const viewModel = utils.createViewModel(req, this.authMethodId);
+        viewModel.account = profile.name || profile.email || profile.sub;
+        return res.render('select_account', viewModel);
+    }
+
+    // prompt=select_account: Continue with the logged in user, or log in with another account
+    private createSelectAccountPostHandler(authMethodId) {
+        debug(`createSelectAccountPostHandler(${authMethodId})`);
+        const instance = this;
+        return (req, res, next): void => {
+            const body = req.body;
+            const expectedCsrfToken = utils.getAndDeleteCsrfToken(req);
+            const csrfToken = body._csrf;
+            const action = body._action;
+            debug(`selectAccountPostHandler(${authMethodId}, action: ${action})`);
+
+            if (!csrfToken || expectedCsrfToken !== csrfToken) {
+                setTimeout(failMessage, ERROR_TIMEOUT, 403, 'CSRF validation failed.', next);
+                return;
+            }
+            if (!utils.isLoggedIn(req, authMethodId)) {
+                setTimeout(failMessage, ERROR_TIMEOUT, 403, 'You are not logged in.', next);
+                return;
+            }
+            const sessionData = utils.getSession(req, authMethodId);
+            const authRequest = sessionData.authRequest;
+            if (!authRequest || !authRequest.redirectUriValid) {
+                setTimeout(failMessage, ERROR_TIMEOUT, 500, 'Invalid state: Session must contain a valid auth request.', next);
+                return;
+            }
+
+            switch (action) {
+                case 'continue':
+                    return instance.continueAuthorizeFlow(req, res, next, sessionData.authResponse);
+                case 'switch':
+                    delete sessionData.authResponse;
+                    return instance.idp.authorizeWithUi(req, res, next, authRequest);
+            }
+            setTimeout(failMessage, ERROR_TIMEOUT, 400, 'Invalid action, must be "continue" or "switch".', next);
+            return;
+        };
+    }
+
     private authorizeFlow_Step2(req, res, next): void {
         debug(`authorizeFlow_Step2(${this.authMethodId})`);
+        const instance = this;
         const authRequest = utils.getAuthRequest(req, this.authMethodId);
         const userProfile = utils.getAuthResponse(req, this.authMethodId).profile;
+
+        // The client may get a pairwise subject instead of the user id; this applies
+        // to the tokens (authenticated_userid) and to everything created from the profile.
+        pairwiseSubject.getSubject(authRequest.api_id, authRequest.client_id, userProfile.sub, function (err, sub) {
+            if (err)
+                return failError(500, err, next);
+            let clientProfile = userProfile;
+            if (sub !== userProfile.sub) {
+                clientProfile = utils.clone(userProfile) as OidcProfile;
+                clientProfile.sub = sub;
+            }
+            return instance.authorizeClient(req, res, next, clientProfile);
+        });
+    }
+
+    private authorizeClient(req, res, next, userProfile: OidcProfile): void {
+        debug(`authorizeClient(${this.authMethodId})`);
+        const instance = this;
+        const authRequest = utils.getAuthRequest(req, this.authMethodId);
+        const authTime = utils.getSession(req, this.authMethodId).authTime;
+
+        if (authRequest.device_code)
+            return this.finishDeviceAuthorization(req, res, next, 'approved', userProfile);
+
+        // Remember the client for back-channel logout; this does not have to finish
+        // before we continue.
+        backchannelLogout.registerClient(req, {
+            auth_method_id: this.authMethodId,
+            api_id: authRequest.api_id,
+            client_id: authRequest.client_id,
+            sub: userProfile.sub
+        });
+
+        const responseTypes = authRequest.response_type.split(' ');
+        const wantsIdToken = !!responseTypes.find(t => t === 'id_token');
+        // Kong only knows about "code" and "token"; the id_token is created by us.
+        let kongResponseType = null;
+        if (responseTypes.find(t => t === 'code'))
+            kongResponseType = 'code';
+        else if (responseTypes.find(t => t === 'token'))
+            kongResponseType = 'token';
+        if (!kongResponseType)
+            return this.authorizeIdTokenOnly(req, res, next, userProfile);
+
         debug('/authorize/login: Calling authorization end point.');
         oauth2.authorize({
-            response_type: authRequest.response_type,
+            response_type: kongResponseType,
             authenticated_userid: userProfile.sub,
             api_id: authRequest.api_id,
             client_id: authRequest.client_id,
@@ -933,19 +1355,210 @@ export class GenericOAuth2Router {
                 return failError(400, err, next);
             if (!redirectUri.redirect_uri)
                 return failMessage(500, 'Server error, no redirect URI returned.', next);
-            let uri = redirectUri.redirect_uri;
+            const uri = redirectUri.redirect_uri;
+            // In case of a code, we need to store additional information with the profile:
+            // The PKCE challenge (to check the code_verifier), and what we need to issue
+            // an ID token when the code is redeemed.
+            let storedProfile: CodeProfile = userProfile;
+            const userinfoClaims = utilsOAuth2.getRequestedClaims(authRequest.claims, 'userinfo');
+            const idTokenClaims = utilsOAuth2.getRequestedClaims(authRequest.claims, 'id_token');
+            if (kongResponseType === 'code' || userinfoClaims.length > 0 || idTokenClaims.length > 0)
+                storedProfile = utils.clone(userProfile) as CodeProfile;
+            // The claims the client requested for the UserInfo end point and the ID token stay with the token
+            if (userinfoClaims.length > 0)
+                storedProfile.userinfo_claims = userinfoClaims;
+            if (idTokenClaims.length > 0)
+                storedProfile.id_token_claims = idTokenClaims;
+            if (kongResponseType === 'code') {
+                storedProfile.code_challenge = authRequest.code_challenge;
+                storedProfile.code_challenge_method = authRequest.code_challenge_method;
+                storedProfile.nonce = authRequest.nonce;
+                storedProfile.auth_time = authTime;
+                storedProfile.scope = authRequest.scope;
+            }
             // For this redirect_uri, which can contain either a code or an access token,
             // associate the profile (userInfo).
-            profileStore.registerTokenOrCode(redirectUri, authRequest.api_id, userProfile, function (err) {
+            profileStore.registerTokenOrCode(redirectUri, authRequest.api_id, storedProfile, function (err) {
                 if (err)
                     return failError(500, err, next);
-                if (authRequest.state)
-                    uri += '&state=' + qs.escape(authRequest.state);
-                return res.redirect(uri);
+                // Kong returns the code or the token in the query or in the fragment; we
+                // return it the way the client asked for (response_mode).
+                const responseParams = responseMode.parseRedirectUri(uri, authRequest.redirect_uri);
+                responseParams.state = authRequest.state;
+                // An access token from the implicit grant may have to be a JWT as well
+                const implicitToken: AccessToken = {
+                    access_token: responseParams.access_token,
+                    expires_in: responseParams.expires_in
+                };
+                const issuer = utilsOAuth2.getIssuer(instance.authMethodId, authRequest.api_id);
+                jwtAccessTokens.issue(issuer, authRequest, storedProfile, implicitToken, function (err) {
+                    if (err)
+                        return failError(500, err, next);
+                    if (implicitToken.access_token)
+                        responseParams.access_token = implicitToken.access_token;
+                    if (implicitToken.jwt_access_token)
+                        responseParams.jwt_access_token = implicitToken.jwt_access_token;
+                    if (!wantsIdToken)
+                        return responseMode.respond(res, authRequest.redirect_uri, authRequest.response_mode, responseParams);
+
+                    // Implicit or hybrid flow with an id_token
+                    const idTokenOptions = {
+                        scope: authRequest.scope,
+                        claims: idTokenClaims,
+                        nonce: authRequest.nonce,
+                        auth_time: authTime,
+                        access_token: responseParams.access_token,
+                        code: responseParams.code
+                    };
+                    utilsOAuth2.createIdToken(instance.authMethodId, authRequest.api_id, authRequest.client_id, userProfile, idTokenOptions, function (err, idToken) {
+                        if (err)
+                            return failError(500, err, next);
+                        responseParams.id_token = idToken;
+                        return responseMode.respond(res, authRequest.redirect_uri, authRequest.response_mode, responseParams);
+                    });
+                });
+            });
+        });
+    }
+
+    // Logs the user out of the auth server; without an id_token_hint, the request may not
+    // come from the client at all, so the user has to confirm the logout first.
+    private endSession(req, res, next, params, confirmed: boolean): void {
+        debug(`endSession(${this.authMethodId})`);
+        const instance = this;
+        const logoutRequest: LogoutRequest = {
+            api_id: req.params.apiId,
+            id_token_hint: params.id_token_hint,
+            client_id: params.client_id,
+            post_logout_redirect_uri: params.post_logout_redirect_uri,
+            state: params.state
+        };
+        utilsOAuth2.validateLogoutRequest(this.authMethodId, logoutRequest, function (err) {
+            if (err)
+                return next(err);
+            if (!logoutRequest.id_token_hint && !confirmed) {
+                const viewModel = utils.createViewModel(req, instance.authMethodId);
+                viewModel.endSessionUrl = `${instance.authMethodId}/api/${logoutRequest.api_id}/logout`;
+                viewModel.logoutRequest = logoutRequest;
+                return res.render('logout_confirm', viewModel);
+            }
+
+            // Only the tokens of the user who is logged in here are revoked, not necessarily
+            // the subject of the id_token_hint.
+            const authMethod = utils.getAuthMethod(instance.authMethodId);
+            const authResponse = utils.isLoggedIn(req, instance.authMethodId) ? utils.getAuthResponse(req, instance.authMethodId) : null;
+            const revokeTokens = (callback: SimpleCallback) => {
+                if (!authMethod || !authMethod.revokeTokensOnLogout || !authResponse || !authResponse.profile)
+                    return callback(null);
+                info(`Revoking all tokens of user ${authResponse.profile.sub} on logout`);
+                // Including the tokens issued with pairwise subjects
+                pairwiseSubject.getSubjects(authResponse.profile.sub, function (err, subs) {
+                    if (err)
+                        return callback(err);
+                    async.eachSeries(subs, tokens.deleteTokensByAuthenticatedUserId, callback);
+                });
+            };
+            revokeTokens(function (err) {
+                if (err)
+                    return failError(500, err, next);
+                backchannelLogout.logoutSession(req);
+                req.session.destroy();
+                if (logoutRequest.post_logout_redirect_uri) {
+                    const redirectUri = new URL(logoutRequest.post_logout_redirect_uri);
+                    if (logoutRequest.state)
+                        redirectUri.searchParams.set('state', logoutRequest.state);
+                    return res.redirect(redirectUri.toString());
+                }
+                return res.render('logout', {
+                    title: 'Logged out',
+                    portalUrl: wicked.getExternalPortalUrl(),
+                    baseUrl: req.app.get('base_path'),
+                    correlationId: req.correlationId,
+                });
             });
         });
     }
 
+    // The device fetches its token with the device code, so we just have to
+    // record the user's decision.
+    private finishDeviceAuthorization(req, res, next, status: string, userProfile?: OidcProfile): void {
+        debug(`finishDeviceAuthorization(${this.authMethodId}, ${status})`);
+        const authMethodId = this.authMethodId;
+        const authRequest = utils.getAuthRequest(req, authMethodId);
+        const deviceCode = authRequest.device_code;
+
+        deviceStore.retrieve(deviceCode, (err, deviceAuthorization) => {
+            if (err)
+                return failError(500, err, next);
+            if (!deviceAuthorization || deviceAuthorization.status !== 'pending')
+                return failMessage(400, 'The device authorization is invalid or has expired.', next);
+            deviceAuthorization.status = status;
+            if (status === 'approved') {
+                deviceAuthorization.authenticated_userid = userProfile.sub;
+                deviceAuthorization.profile = userProfile;
+                deviceAuthorization.auth_time = utils.getSession(req, authMethodId).authTime;
+            }
+            deviceStore.store(deviceCode, deviceAuthorization, (err) => {
+                if (err)
+                    return failError(500, err, next);
+                delete authRequest.device_code;
+                const viewModel = utils.createViewModel(req, authMethodId);
+                viewModel.approved = (status === 'approved');
+                return res.render('device_done', viewModel);
+            });
+        });
+    }
+
+    // response_type=id_token does not involve any token, so Kong is not needed here.
+    private authorizeIdTokenOnly(req, res, next, userProfile: OidcProfile): void {
+        debug(`authorizeIdTokenOnly(${this.authMethodId})`);
+        const instance = this;
+        const authRequest = utils.getAuthRequest(req, this.authMethodId);
+        const authTime = utils.getSession(req, this.authMethodId).authTime;
+
+        utils.getApiInfo(authRequest.api_id, function (err, apiInfo) {
+            if (err)
+                return failError(500, err, next);
+            // This is a front channel flow like the implicit grant
+            if (!apiInfo.settings || !apiInfo.settings.enable_implicit_grant)
+                return failOAuth(403, 'unauthorized_client', `The API ${authRequest.api_id} is not configured for the OAuth2 implicit grant`, next);
+            const idTokenOptions = {
+                scope: authRequest.scope,
+                claims: utilsOAuth2.getRequestedClaims(authRequest.claims, 'id_token'),
+                nonce: authRequest.nonce,
+                auth_time: authTime
+            };
+            utilsOAuth2.createIdToken(instance.authMethodId, authRequest.api_id, authRequest.client_id, userProfile, idTokenOptions, function (err, idToken) {
+                if (err)
+                    return failError(500, err, next);
+                return responseMode.respond(res, authRequest.redirect_uri, authRequest.response_mode, {
+                    id_token: idToken,
+                    state: authRequest.state
+                });
+            });
+        });
+    }
+
+    // OpenID Connect: Token responses contain an ID token if the openid scope was granted.
+    private addIdToken(tokenRequest: TokenRequest, accessToken: AccessToken, callback: SimpleCallback): void {
+        debug('addIdToken()');
+        if (!accessToken.session_data || !utilsOAuth2.hasOpenIdScope(tokenRequest.scope))
+            return callback(null);
+        const idTokenOptions = {
+            scope: tokenRequest.scope,
+            claims: accessToken.session_data.id_token_claims,
+            nonce: tokenRequest.nonce,
+            auth_time: tokenRequest.auth_time,
+            access_token: accessToken.access_token
+        };
+        utilsOAuth2.createIdToken(this.authMethodId, tokenRequest.api_id, tokenRequest.client_id, accessToken.session_data, idTokenOptions, function (err, idToken) {
+            if (err)
+                return callback(err);
+            accessToken.id_token = idToken;
+            return callback(null);
+        });
+    }
+
     private tokenPasswordGrant(tokenRequest: TokenRequest, callback: AccessTokenCallback): void {
         debug('tokenPasswordGrant()');
         const instance = this;
@@ -1005,6 +1618,40 @@ export class GenericOAuth2Router {
         });
     }
 
+    private tokenJwtBearer(tokenRequest: TokenRequest, callback: AccessTokenCallback): void {
+        debug('tokenJwtBearer()');
+        const instance = this;
+        utils.getApiInfo(tokenRequest.api_id, function (err, apiInfo) {
+            if (err)
+                return failOAuth(500, 'server_error', 'could not retrieve API information', err, callback);
+            if (!apiInfo.settings || !apiInfo.settings.enable_jwt_bearer_grant)
+                return failOAuth(400, 'unauthorized_client', `The API ${tokenRequest.api_id} is not configured for the JWT bearer grant.`, callback);
+            utilsOAuth2.validateSubscription(tokenRequest, function (err, validationResult) {
+                if (err)
+                    return callback(err);
+                utilsOAuth2.validateApiScopes(tokenRequest.api_id, tokenRequest.scope, validationResult.trusted, function (err, validatedScopes) {
+                    if (err)
+                        return failOAuth(400, 'invalid_scope', 'could not validate requested token scope', err, callback);
+                    tokenRequest.scope = validatedScopes.validatedScopes;
+
+                    utilsOAuth2.verifyJwtAssertion(instance.authMethodId, tokenRequest.api_id, tokenRequest.assertion, (err, authResponse) => {
+                        if (err)
+                            return callback(err);
+                        // Same as for federated logins; this creates the wicked user if needed.
+                        // Registrations are not checked, see tokenPasswordGrant.
+                        instance.checkUserFromAuthResponse(authResponse, (err, authResponse) => {
+                            if (err)
+                                return failOAuth(400, 'invalid_grant', 'could not map the assertion to a user', err, callback);
+                            tokenRequest.authenticated_userid = authResponse.userId;
+                            tokenRequest.session_data = authResponse.profile;
+                            return oauth2.token(tokenRequest, callback);
+                        });
+                    });
+                });
+            });
+        });
+    }
+
     private checkUserFromAuthResponse(authResponse: AuthResponse, callback: AuthResponseCallback) {
         // The Auth response contains the default profile, which may or may not
         // match the stored profile in the wicked database. Plus that we might need to
@@ -1098,6 +1745,45 @@ export class GenericOAuth2Router {
     private tokenRefreshToken(tokenRequest: TokenRequest, callback: AccessTokenCallback) {
         debug('tokenRefreshToken()');
         const instance = this;
+        const refreshToken = tokenRequest.refresh_token;
+        utils.getApiInfo(tokenRequest.api_id, function (err, apiInfo) {
+            if (err)
+                return failOAuth(500, 'server_error', 'could not retrieve API information', err, callback);
+            if (!apiInfo.settings || !apiInfo.settings.rotate_refresh_tokens)
+                return instance.refreshTokenGrant(tokenRequest, callback);
+
+            refreshTokenStore.getFamily(refreshToken, function (err, family) {
+                if (err)
+                    return failOAuth(500, 'server_error', 'could not check the refresh token', err, callback);
+                if (family && family.used) {
+                    // The refresh token has leaked; either the client or an attacker has the current one.
+                    warn(`SECURITY: Reuse of a rotated refresh token detected (API ${tokenRequest.api_id}, client_id ${tokenRequest.client_id}), revoking token family ${family.family_id}.`);
+                    return refreshTokenStore.revokeFamily(family.family_id, function (err) {
+                        if (err)
+                            error(err);
+                        return failOAuth(400, 'invalid_grant', 'The refresh token has already been used.', callback);
+                    });
+                }
+                instance.refreshTokenGrant(tokenRequest, function (err, accessToken) {
+                    if (err || accessToken.error)
+                        return callback(err, accessToken);
+                    if (!accessToken.refresh_token || accessToken.refresh_token === refreshToken) {
+                        warn(`tokenRefreshToken: Kong did not issue a new refresh token for API ${tokenRequest.api_id}; check the reuse_refresh_token setting of the oauth2 plugin.`);
+                        return callback(null, accessToken);
+                    }
+                    refreshTokenStore.rotate(tokenRequest.api_id, refreshToken, family, accessToken.access_token, accessToken.refresh_token, function (err) {
+                        if (err)
+                            return failOAuth(500, 'server_error', 'could not store the refresh token lineage', err, callback);
+                        return callback(null, accessToken);
+                    });
+                });
+            });
+        });
+    }
+
+    private refreshTokenGrant(tokenRequest: TokenRequest, callback: AccessTokenCallback) {
+        debug('refreshTokenGrant()');
+        const instance = this;
         // Client validation and all that stuff can be done in the OAuth2 adapter,
         // but we still need to verify that the user for which the refresh token was
         // created is still a valid user.
@@ -1118,17 +1804,88 @@ export class GenericOAuth2Router {
                 // the callback to the IdP for additional things (I can't imagine what right now though).
                 if (err)
                     return failOAuth(500, 'server_error', 'checking the refresh token returned an unexpected error.', callback);
-                wicked.apiGet('users/' + userId, function (err, userInfo) {
+                // The authenticated user id may be a pairwise subject
+                pairwiseSubject.resolveUserId(userId, function (err, wickedUserId) {
                     if (err)
-                        return failOAuth(400, 'invalid_request', 'user associated with refresh token is not a valid user (anymore)', err, callback);
-                    debug('wicked local user info:');
-                    debug(userInfo);
-                    const oidcProfile = utilsOAuth2.wickedUserInfoToOidcProfile(userInfo);
-                    tokenRequest.session_data = oidcProfile;
-                    // Now delegate to oauth2 adapter:
-                    oauth2.token(tokenRequest, callback);
+                        return failOAuth(500, 'server_error', 'could not resolve the user of the refresh token', err, callback);
+                    wicked.apiGet('users/' + wickedUserId, function (err, userInfo) {
+                        if (err)
+                            return failOAuth(400, 'invalid_request', 'user associated with refresh token is not a valid user (anymore)', err, callback);
+                        debug('wicked local user info:');
+                        debug(userInfo);
+                        const oldAccessToken = tokenInfo.access_token;
+                        utilsOAuth2.makeOidcProfileForApi(tokenRequest.api_id, userInfo, function (err, userProfile) {
+                            if (err)
+                                return failOAuth(500, 'server_error', 'could not assemble the user profile', err, callback);
+                            instance.retrieveRefreshProfile(refreshToken, oldAccessToken, function (err, oldProfile) {
+                                if (err)
+                                    return failOAuth(500, 'server_error', 'could not retrieve the profile of the refresh token', err, callback);
+                                // A refresh token bound to a DPoP key may only be used with a proof
+                                // of the same key (RFC 9449, section 5)
+                                const boundThumbprint = oldProfile && oldProfile.cnf ? oldProfile.cnf.jkt : null;
+                                if (boundThumbprint && boundThumbprint !== tokenRequest.dpop_jkt)
+                                    return failOAuth(400, 'invalid_grant', 'The DPoP proof does not match the key the refresh token is bound to.', callback);
+                                instance.checkRefreshTokenCertificate(tokenRequest, oldProfile, function (err) {
+                                    if (err)
+                                        return callback(err);
+                                    // The new token takes over the profile of the old one (e.g. an "act" claim),
+                                    // with the user's claims up to date; the certificate and DPoP bindings are
+                                    // added again for the current request.
+                                    const oidcProfile: OidcProfile = Object.assign({}, oldProfile, userProfile);
+                                    oidcProfile.sub = userId;
+                                    delete oidcProfile.cnf;
+                                    delete oidcProfile.api_id;
+                                    tokenRequest.session_data = oidcProfile;
+                                    // Keep the scope of the refresh token, for the ID token
+                                    tokenRequest.scope = tokenInfo.scope;
+                                    // Now delegate to oauth2 adapter:
+                                    oauth2.token(tokenRequest, function (err, accessToken) {
+                                        if (err || accessToken.error)
+                                            return callback(err, accessToken);
+                                        // Kong has deleted the old token, and with it the old refresh token;
+                                        // a JWT access token issued for it must not be accepted anymore either.
+                                        profileStore.deleteTokenOrCode(oldAccessToken);
+                                        // Unless Kong reuses the refresh token (reuse_refresh_token)
+                                        if (accessToken.refresh_token !== refreshToken)
+                                            profileStore.deleteRefreshToken(refreshToken);
+                                        jwtAccessTokens.denyByKongToken(oldAccessToken, function (err) {
+                                            if (err)
+                                                return failOAuth(500, 'server_error', 'could not revoke the JWT access token of the old token', err, callback);
+                                            return callback(null, accessToken);
+                                        });
+                                    });
+                                });
+                            });
+                        });
+                    });
                 });
             });
         });
     }
+
+    // The profile is stored with the refresh token, as the old access token (and its profile)
+    // has usually expired by now. Refresh tokens which were issued before profiles were stored
+    // with them only have the profile of the old access token, if any.
+    private retrieveRefreshProfile(refreshToken: string, oldAccessToken: string, callback: OidcProfileCallback): void {
+        profileStore.retrieveByRefreshToken(refreshToken, function (err, profile) {
+            if (err || profile)
+                return callback(err, profile);
+            return profileStore.retrieve(oldAccessToken, callback);
+        });
+    }
+
+    // RFC 8705, section 4: Refresh tokens of public clients are bound to the client
+    // certificate; confidential clients may change their certificate.
+    private checkRefreshTokenCertificate(tokenRequest: TokenRequest, oldProfile: OidcProfile, callback: SimpleCallback): void {
+        const boundThumbprint = oldProfile && oldProfile.cnf ? oldProfile.cnf['x5t#S256'] : null;
+        if (!boundThumbprint || boundThumbprint === tokenRequest.certificate_thumbprint)
+            return callback(null);
+        utilsOAuth2.validateSubscription(tokenRequest, function (err, validationResult) {
+            if (err)
+                return callback(err);
+            if (!validationResult.subsInfo.application.confidential)
+                return failOAuth(400, 'invalid_grant', 'The client certificate does not match the certificate the refresh token is bound to.', callback);
+            return callback(null);
+        });
+    }
 }
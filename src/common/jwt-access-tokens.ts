@@ -0,0 +1,163 @@
+'use strict';
+
+import { AccessToken, AccessTokenCallback, JwtAccessTokenClaims, OAuth2Request, OidcProfile, SimpleCallback, StringCallback } from './types';
+import { WickedApiSettings } from './wicked-types';
+import { redisConnection } from './redis-connection';
+import { signingKeys } from './signing-keys';
+import { utils } from './utils';
+import { failMessage } from './utils-fail';
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:jwt-access-tokens');
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+// RFC 9068, section 2.1
+const ACCESS_TOKEN_TYPE = 'at+jwt';
+
+export const jwtAccessTokens = {
+
+    /**
+     * If the API's access_token_format is "jwt" or "both", creates a signed JWT access
+     * token (RFC 9068) for the Kong access token. With "jwt", it replaces the Kong token
+     * in the response, with "both" it is returned as "jwt_access_token" in addition.
+     * The Kong token remains the reference for the profile store, refresh and revocation;
+     * revoked JWTs are put on a deny-list which introspection checks.
+     */
+    issue: function (issuer: string, oauth2Request: OAuth2Request, profile: OidcProfile, accessToken: AccessToken, callback: AccessTokenCallback): void {
+        debug(`issue(${oauth2Request.api_id})`);
+        const apiId = oauth2Request.api_id;
+        utils.getApiInfo(apiId, function (err, apiInfo) {
+            if (err)
+                return callback(err);
+            const settings = apiInfo.settings || ({} as WickedApiSettings);
+            const format = settings.access_token_format;
+            if ((format !== 'jwt' && format !== 'both') || !accessToken.access_token)
+                return callback(null, accessToken);
+
+            // JWT access tokens must expire; Kong tokens may not
+            const ttlSeconds = Number(accessToken.expires_in) || Number(settings.token_expiration);
+            if (!ttlSeconds)
+                return failMessage(500, `API ${apiId} needs a token_expiration for JWT access tokens.`, callback);
+            const now = utils.getUtc();
+            const scope = Array.isArray(oauth2Request.scope) ? oauth2Request.scope.join(' ') : oauth2Request.scope;
+            const payload: JwtAccessTokenClaims = {
+                iss: issuer,
+                // Tokens without a user (client credentials) are issued to the client itself
+                sub: profile && profile.sub ? profile.sub : oauth2Request.client_id,
+                aud: apiId,
+                client_id: oauth2Request.client_id,
+                iat: now,
+                exp: now + ttlSeconds,
+                jti: utils.createRandomId()
+            };
+            if (scope)
+                payload.scope = scope;
+            if (profile && profile.cnf)
+                payload.cnf = profile.cnf;
+            // Further claims of the profile, as configured for the API
+            if (profile && settings.jwt_access_token_claims) {
+                for (let claim of settings.jwt_access_token_claims) {
+                    if (profile[claim] !== undefined && !payload.hasOwnProperty(claim))
+                        payload[claim] = profile[claim];
+                }
+            }
+
+            signingKeys.sign(payload, function (err, token) {
+                if (err)
+                    return callback(err);
+                const kongToken = accessToken.access_token;
+                const redis = redisConnection.getRedis();
+                redis.multi()
+                    .set(jtiKey(payload.jti), kongToken, 'EX', ttlSeconds)
+                    .set(kongTokenKey(kongToken), payload.jti, 'EX', ttlSeconds)
+                    .exec(function (err) {
+                        if (err)
+                            return callback(err);
+                        if (format === 'jwt') {
+                            accessToken.access_token = token;
+                        } else {
+                            accessToken.jwt_access_token = token;
+                        }
+                        return callback(null, accessToken);
+                    });
+            }, ACCESS_TOKEN_TYPE);
+        });
+    },
+
+    // JWT access tokens are recognized by their "typ" header, so that ID tokens can't be used instead
+    isJwtAccessToken: function (token: string): boolean {
+        if (!token || token.split('.').length !== 3)
+            return false;
+        const decoded = jwt.decode(token, { complete: true });
+        return !!decoded && !!decoded.header && decoded.header.typ === ACCESS_TOKEN_TYPE;
+    },
+
+    /**
+     * Verifies the signature and expiry of a JWT access token, and checks the deny-list.
+     * Returns the claims, or null if the token is not (or no longer) valid.
+     */
+    verify: function (token: string, callback): void {
+        debug('verify()');
+        if (!jwtAccessTokens.isJwtAccessToken(token))
+            return callback(null, null);
+        signingKeys.verify(token, {}, function (err, payload) {
+            if (err) {
+                debug(`verify: ${err.message}`);
+                return callback(null, null);
+            }
+            if (!payload.jti)
+                return callback(null, null);
+            const redis = redisConnection.getRedis();
+            redis.get(deniedKey(payload.jti), function (err, denied) {
+                if (err)
+                    return callback(err);
+                return callback(null, denied ? null : payload);
+            });
+        });
+    },
+
+    // The Kong access token behind a valid JWT access token, or null
+    getKongToken: function (token: string, callback: StringCallback): void {
+        debug('getKongToken()');
+        jwtAccessTokens.verify(token, function (err, payload) {
+            if (err || !payload)
+                return callback(err, null);
+            const redis = redisConnection.getRedis();
+            redis.get(jtiKey(payload.jti), callback);
+        });
+    },
+
+    // Puts the JWT access token issued for the Kong access token (if any) on the deny-list
+    denyByKongToken: function (kongToken: string, callback: SimpleCallback): void {
+        debug('denyByKongToken()');
+        const redis = redisConnection.getRedis();
+        const key = kongTokenKey(kongToken);
+        redis.multi()
+            .get(key)
+            .ttl(key)
+            .exec(function (err, results) {
+                if (err)
+                    return callback(err);
+                const jti = results[0];
+                const ttlSeconds = results[1];
+                if (!jti || ttlSeconds <= 0)
+                    return callback(null);
+                info(`Denying JWT access token ${jti}`);
+                redis.set(deniedKey(jti), '1', 'EX', ttlSeconds, (err) => callback(err));
+            });
+    }
+};
+
+function jtiKey(jti: string): string {
+    return 'jwt_access_token:' + jti;
+}
+
+function deniedKey(jti: string): string {
+    return 'jwt_access_token_denied:' + jti;
+}
+
+function kongTokenKey(kongToken: string): string {
+    const sha256 = crypto.createHash('sha256');
+    sha256.update(kongToken);
+    return 'jwt_access_token_of:' + sha256.digest('hex');
+}
@@ -0,0 +1,182 @@
+'use strict';
+
+import { StringCallback, StringArrayCallback } from './types';
+import { WickedSubscriptionInfo, WickedApplication } from './wicked-types';
+import { redisConnection } from './redis-connection';
+import { redirectUris } from './redirect-uris';
+import { utils } from './utils';
+import { failMessage } from './utils-fail';
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:pairwise-subject');
+const crypto = require('crypto');
+const wicked = require('wicked-sdk');
+const request = require('request');
+const { URL } = require('url');
+
+const SECTOR_IDENTIFIER_FETCH_TIMEOUT = 5000; // ms
+const SECTOR_IDENTIFIER_MAX_SIZE = 64 * 1024; // bytes
+// The redirect URIs listed at a sector_identifier_uri are cached for this long
+const SECTOR_IDENTIFIER_CACHE_SECONDS = 300;
+
+export const pairwiseSubject = {
+
+    /**
+     * The "sub" the given client gets for the user. This is the wicked user id, unless
+     * the API or the client's application uses pairwise subject identifiers (OpenID
+     * Connect Core, 8.1); then it is a salted hash of the sector identifier and the user id.
+     * Pairwise subjects are recorded, so that they can be resolved to the user again.
+     */
+    getSubject: function (apiId: string, clientId: string, userId: string, callback: StringCallback): void {
+        debug(`getSubject(${apiId}, ${clientId})`);
+        utils.getApiInfo(apiId, function (err, apiInfo) {
+            if (err)
+                return callback(err);
+            wicked.getSubscriptionByClientId(clientId, apiId, function (err, subsInfo: WickedSubscriptionInfo) {
+                if (err)
+                    return callback(err);
+                const application = subsInfo.application;
+                const isPairwise = application.subjectType ?
+                    application.subjectType === 'pairwise' :
+                    !!apiInfo.settings && apiInfo.settings.subject_type === 'pairwise';
+                if (!isPairwise)
+                    return callback(null, userId);
+                const salt = utils.app.authConfig.pairwiseSubjectSalt;
+                if (!salt)
+                    return failMessage(500, 'Pairwise subject identifiers require a pairwiseSubjectSalt in the auth server configuration.', callback);
+                getSectorIdentifier(application, function (err, sectorIdentifier) {
+                    if (err)
+                        return callback(err);
+
+                    const sha256 = crypto.createHash('sha256');
+                    sha256.update(sectorIdentifier + userId + salt);
+                    const sub = utils.base64UrlEncode(sha256.digest());
+                    const redis = redisConnection.getRedis();
+                    redis.multi()
+                        .set(subjectKey(sub), userId)
+                        .sadd(userKey(userId), sub)
+                        .exec((err) => callback(err, sub));
+                });
+            });
+        });
+    },
+
+    // The wicked user id behind a (possibly pairwise) subject
+    resolveUserId: function (sub: string, callback: StringCallback): void {
+        debug('resolveUserId()');
+        const redis = redisConnection.getRedis();
+        redis.get(subjectKey(sub), function (err, userId) {
+            if (err)
+                return callback(err);
+            return callback(null, userId || sub);
+        });
+    },
+
+    // All subjects of the user: the user id, and all pairwise subjects given out so far
+    getSubjects: function (userId: string, callback: StringArrayCallback): void {
+        debug('getSubjects()');
+        const redis = redisConnection.getRedis();
+        redis.smembers(userKey(userId), function (err, subs: string[]) {
+            if (err)
+                return callback(err);
+            return callback(null, [userId].concat(subs || []));
+        });
+    }
+};
+
+// The host of the sector_identifier_uri, or of the redirect URIs (OpenID Connect Core, 8.1).
+// Redirect URIs on several hosts need a sector_identifier_uri, which has to list all of them.
+function getSectorIdentifier(application: WickedApplication, callback: StringCallback): void {
+    const registeredUris = redirectUris.getRegistered(application);
+    if (!application.sectorIdentifierUri) {
+        const hosts = registeredUris.map(getHost);
+        if (hosts.length === 0 || hosts.find(h => !h))
+            return failMessage(500, `Could not determine the sector identifier of application ${application.id}.`, callback);
+        if (hosts.find(h => h !== hosts[0]))
+            return failMessage(500, `Application ${application.id} has redirect URIs on several hosts, and needs a sectorIdentifierUri for pairwise subjects.`, callback);
+        return callback(null, hosts[0]);
+    }
+    const sectorIdentifier = getHost(application.sectorIdentifierUri);
+    if (!sectorIdentifier || !/^https:\/\//.test(application.sectorIdentifierUri))
+        return failMessage(500, `The sectorIdentifierUri of application ${application.id} must be an https URL.`, callback);
+    fetchSectorRedirectUris(application.sectorIdentifierUri, function (err, sectorUris) {
+        if (err)
+            return callback(err);
+        const missingUri = registeredUris.find(u => !sectorUris.find(s => s === u));
+        if (missingUri)
+            return failMessage(500, `The redirect URI ${missingUri} of application ${application.id} is not listed at its sectorIdentifierUri.`, callback);
+        return callback(null, sectorIdentifier);
+    });
+}
+
+// Private-use schemes of native apps don't have a host; the URI itself is used then
+function getHost(uri: string): string {
+    try {
+        return new URL(uri).hostname || uri;
+    } catch (err) {
+        return null;
+    }
+}
+
+// The sector_identifier_uri returns a JSON array of redirect URIs (OpenID Connect Dynamic
+// Client Registration, 5); don't follow redirects, and don't accept arbitrarily large documents.
+function fetchSectorRedirectUris(sectorIdentifierUri: string, callback: StringArrayCallback): void {
+    debug(`fetchSectorRedirectUris(${sectorIdentifierUri})`);
+    const redis = redisConnection.getRedis();
+    const cacheKey = sectorIdentifierKey(sectorIdentifierUri);
+    redis.get(cacheKey, function (err, cached) {
+        if (err)
+            return callback(err);
+        if (cached)
+            return callback(null, JSON.parse(cached));
+        let done = false;
+        const finish = function (err, sectorUris?: string[]) {
+            if (done)
+                return;
+            done = true;
+            if (err)
+                return callback(err);
+            redis.set(cacheKey, JSON.stringify(sectorUris), 'EX', SECTOR_IDENTIFIER_CACHE_SECONDS, (err) => callback(err, sectorUris));
+        };
+        const fetchRequest = request.get({
+            url: sectorIdentifierUri,
+            followRedirect: false,
+            timeout: SECTOR_IDENTIFIER_FETCH_TIMEOUT
+        }, function (err, res, body) {
+            if (err)
+                return failMessage(500, `Could not retrieve the sector identifier document ${sectorIdentifierUri}.`, finish);
+            if (res.statusCode !== 200)
+                return failMessage(500, `Retrieving the sector identifier document ${sectorIdentifierUri} returned status ${res.statusCode}.`, finish);
+            let sectorUris = null;
+            try {
+                sectorUris = JSON.parse(body);
+            } catch (err) {
+                return failMessage(500, `The sector identifier document ${sectorIdentifierUri} is not valid JSON.`, finish);
+            }
+            if (!Array.isArray(sectorUris) || sectorUris.find(u => typeof (u) !== 'string'))
+                return failMessage(500, `The sector identifier document ${sectorIdentifierUri} must be a JSON array of redirect URIs.`, finish);
+            return finish(null, sectorUris);
+        });
+        let size = 0;
+        fetchRequest.on('data', function (chunk) {
+            size += chunk.length;
+            if (size > SECTOR_IDENTIFIER_MAX_SIZE) {
+                fetchRequest.abort();
+                return failMessage(500, `The sector identifier document ${sectorIdentifierUri} is too large.`, finish);
+            }
+        });
+    });
+}
+
+function sectorIdentifierKey(sectorIdentifierUri: string): string {
+    const sha256 = crypto.createHash('sha256');
+    sha256.update(sectorIdentifierUri);
+    return 'sector_identifier_uris:' + sha256.digest('hex');
+}
+
+function subjectKey(sub: string): string {
+    return 'pairwise_subject:' + sub;
+}
+
+function userKey(userId: string): string {
+    return 'pairwise_subjects_of_user:' + userId;
+}
@@ -11,6 +11,7 @@ const qs = require('querystring');
 const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:profile-store');
 import { redisConnection } from './redis-connection';
 import { failMessage, failError, failOAuth, makeError } from '../common/utils-fail';
+import { oauth2 } from '../kong-oauth2/oauth2';
 
 export class ProfileStore {
 
@@ -72,7 +73,8 @@ export class ProfileStore {
     public deleteTokenOrCode(token: string, callback?: SimpleCallback) {
         debug(`deleteTokenOrCode(${token})`);
         const redis = redisConnection.getRedis();
-        redis.del(token, (err) => {
+        const tokenHash = this.hashToken(token);
+        redis.del(tokenHash, (err) => {
             if (err) {
                 debug('deleteTokenOrCode: redis.delete returned an error when deleting token ' + token);
                 debug(err);
@@ -92,13 +94,57 @@ export class ProfileStore {
         this.getTtlSeconds(apiId, function (err, ttlSeconds) {
             if (err)
                 return callback(err);
-            const profileString = JSON.stringify(profile);
+            const profileString = JSON.stringify(Object.assign({}, profile, { api_id: apiId }));
             const redis = redisConnection.getRedis();
             const tokenHash = instance.hashToken(token);
             redis.set(tokenHash, profileString, 'EX', ttlSeconds, callback);
         });
     };
 
+    /**
+     * The profile of a refresh token outlives the access token it was issued with, so
+     * that the profile (including the "act" claim and the token binding in "cnf") can
+     * be carried over when the refresh token is used, also after the access token expired.
+     */
+    public storeRefreshToken = (refreshToken: string, apiId: string, profile: OidcProfile, callback: SimpleCallback) => {
+        debug('storeRefreshToken()');
+        const instance = this;
+        // Kept as long as Kong accepts the refresh token
+        oauth2.getRefreshTokenTtl(apiId, function (err, ttlSeconds) {
+            if (err)
+                return callback(err);
+            const profileString = JSON.stringify(Object.assign({}, profile, { api_id: apiId }));
+            const redis = redisConnection.getRedis();
+            const key = instance.refreshTokenKey(refreshToken);
+            if (ttlSeconds <= 0)
+                return redis.set(key, profileString, callback);
+            redis.set(key, profileString, 'EX', ttlSeconds, callback);
+        });
+    };
+
+    public retrieveByRefreshToken = (refreshToken: string, callback: OidcProfileCallback) => {
+        debug('retrieveByRefreshToken()');
+        const redis = redisConnection.getRedis();
+        redis.get(this.refreshTokenKey(refreshToken), function (err, result) {
+            if (err)
+                return callback(err);
+            return callback(null, JSON.parse(result));
+        });
+    };
+
+    public deleteRefreshToken = (refreshToken: string, callback?: SimpleCallback) => {
+        debug('deleteRefreshToken()');
+        const redis = redisConnection.getRedis();
+        redis.del(this.refreshTokenKey(refreshToken), (err) => {
+            if (err) {
+                debug('deleteRefreshToken: redis.del returned an error');
+                debug(err);
+            }
+            if (callback)
+                return callback(err);
+        });
+    };
+
     public retrieve = (token, callback: OidcProfileCallback) => {
         debug('retrieve()');
 
@@ -112,6 +158,10 @@ export class ProfileStore {
         });
     };
 
+    private refreshTokenKey(refreshToken: string): string {
+        return 'refresh_token_profile:' + this.hashToken(refreshToken);
+    }
+
     private hashToken(token) {
         const sha256 = crypto.createHash('sha256');
         sha256.update(token);
@@ -0,0 +1,70 @@
+'use strict';
+
+import { SimpleCallback, StringCallback, AuthRequest, AuthRequestCallback } from "./types";
+
+const crypto = require('crypto');
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:pushed-request-store');
+import { redisConnection } from './redis-connection';
+import { utils } from './utils';
+
+// RFC 9126, section 2.2
+const REQUEST_URI_PREFIX = 'urn:ietf:params:oauth:request_uri:';
+
+export class PushedRequestStore {
+
+    constructor() {
+        debug(`constructor()`);
+        // Empty
+    }
+
+    // Stores the authorization request and returns the request_uri which refers to it
+    public store = (authRequest: AuthRequest, ttlSeconds: number, callback: StringCallback) => {
+        debug('store()');
+        const requestUri = REQUEST_URI_PREFIX + utils.base64UrlEncode(crypto.randomBytes(32));
+        const redis = redisConnection.getRedis();
+        redis.set(this.requestUriKey(requestUri), JSON.stringify(authRequest), 'EX', ttlSeconds, (err) => {
+            if (err)
+                return callback(err);
+            return callback(null, requestUri);
+        });
+    };
+
+    // Other request_uris refer to request objects (RFC 9101)
+    public isPushedRequestUri(requestUri: string): boolean {
+        return String(requestUri).startsWith(REQUEST_URI_PREFIX);
+    }
+
+    // A request_uri can only be used once; returns null if it is unknown or has expired.
+    public retrieve = (requestUri: string, callback: AuthRequestCallback) => {
+        debug('retrieve()');
+        const redis = redisConnection.getRedis();
+        const key = this.requestUriKey(requestUri);
+        redis.get(key, (err, result) => {
+            if (err)
+                return callback(err);
+            if (!result)
+                return callback(null, null);
+            this.delete(key);
+            return callback(null, JSON.parse(result));
+        });
+    };
+
+    private delete(key: string, callback?: SimpleCallback) {
+        const redis = redisConnection.getRedis();
+        redis.del(key, (err) => {
+            if (err) {
+                debug('delete: redis.del returned an error');
+                debug(err);
+            }
+            if (callback)
+                return callback(err);
+        });
+    }
+
+    private requestUriKey(requestUri: string): string {
+        return 'pushed_request:' + String(requestUri);
+    }
+};
+
+export const pushedRequestStore = new PushedRequestStore();
@@ -0,0 +1,82 @@
+'use strict';
+
+import { WickedApplication } from './wicked-types';
+import { utils } from './utils';
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:redirect-uris');
+const { URL } = require('url');
+
+// RFC 8252, section 7.3: Native apps listen on an ephemeral port on the loopback interface
+const LOOPBACK_HOSTS = ['127.0.0.1', '[::1]'];
+
+export const redirectUris = {
+
+    /**
+     * All redirect URIs registered for the application; "redirectUris" if present,
+     * otherwise the single "redirectUri".
+     */
+    getRegistered: function (application: WickedApplication): string[] {
+        if (application.redirectUris && application.redirectUris.length > 0)
+            return application.redirectUris;
+        if (application.redirectUri)
+            return [application.redirectUri];
+        return [];
+    },
+
+    /**
+     * Checks a redirect_uri (or post_logout_redirect_uri) against the redirect URIs
+     * registered for the application. Apart from exact matches (ignoring a trailing
+     * slash), loopback redirect URIs match with any port (RFC 8252, section 7.3).
+     */
+    isRegistered: function (application: WickedApplication, uri: string): boolean {
+        debug(`isRegistered(${uri})`);
+        if (!uri)
+            return false;
+        return !!redirectUris.getRegistered(application).find(r => matches(r, uri));
+    },
+
+    /**
+     * Returns an error message if the URI cannot be registered as a redirect URI,
+     * otherwise null. Allowed are https URIs, http URIs on the loopback interface,
+     * and private-use URI schemes of native apps (RFC 8252, section 7.1).
+     */
+    validate: function (uri: string): string {
+        let parsedUri;
+        try {
+            parsedUri = new URL(uri);
+        } catch (err) {
+            return `The redirect URI ${uri} is not an absolute URI.`;
+        }
+        if (parsedUri.hash)
+            return `The redirect URI ${uri} must not contain a fragment.`;
+        if (parsedUri.protocol === 'http:' && !isLoopback(parsedUri) && parsedUri.hostname !== 'localhost')
+            return `The redirect URI ${uri} must use https, or http on the loopback interface.`;
+        // Private-use schemes must contain a period (reverse domain name), RFC 8252, section 7.1
+        if (parsedUri.protocol !== 'http:' && parsedUri.protocol !== 'https:' && parsedUri.protocol.indexOf('.') < 0)
+            return `The redirect URI ${uri} must use a private-use URI scheme in reverse domain name notation.`;
+        return null;
+    }
+};
+
+function isLoopback(uri): boolean {
+    return uri.protocol === 'http:' && !!LOOPBACK_HOSTS.find(h => h === uri.hostname);
+}
+
+function matches(registeredUri: string, uri: string): boolean {
+    if (utils.stripTrailingSlash(registeredUri) === utils.stripTrailingSlash(uri))
+        return true;
+    let parsedRegisteredUri;
+    let parsedUri;
+    try {
+        parsedRegisteredUri = new URL(registeredUri);
+        parsedUri = new URL(uri);
+    } catch (err) {
+        return false;
+    }
+    if (!isLoopback(parsedRegisteredUri) || !isLoopback(parsedUri))
+        return false;
+    // Everything except the port has to match
+    parsedRegisteredUri.port = '';
+    parsedUri.port = '';
+    return utils.stripTrailingSlash(parsedRegisteredUri.toString()) === utils.stripTrailingSlash(parsedUri.toString());
+}
@@ -0,0 +1,106 @@
+'use strict';
+
+import { SimpleCallback, RefreshTokenFamily, RefreshTokenFamilyCallback } from './types';
+
+const async = require('async');
+const crypto = require('crypto');
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:refresh-token-store');
+import { redisConnection } from './redis-connection';
+import { tokens } from '../kong-oauth2/tokens';
+import { oauth2 } from '../kong-oauth2/oauth2';
+import { utils } from './utils';
+
+/**
+ * Keeps track of the lineage of rotated refresh tokens: All refresh tokens which were
+ * issued by refreshing tokens of the same original grant belong to the same family.
+ * A refresh token which is presented a second time means that it has leaked; in that
+ * case all access tokens of the family are revoked.
+ */
+export class RefreshTokenStore {
+
+    constructor() {
+        debug(`constructor()`);
+        // Empty
+    }
+
+    // Returns null if the refresh token was not issued by a rotation (yet)
+    public getFamily = (refreshToken: string, callback: RefreshTokenFamilyCallback) => {
+        debug('getFamily()');
+        const redis = redisConnection.getRedis();
+        redis.get(this.refreshTokenKey(refreshToken), function (err, result) {
+            if (err)
+                return callback(err);
+            if (!result)
+                return callback(null, null);
+            return callback(null, JSON.parse(result));
+        });
+    };
+
+    /**
+     * Marks the refresh token as used, and adds the newly issued refresh and access tokens
+     * to the family. Tokens which were not part of a family yet start a new one. Used refresh
+     * tokens are remembered as long as they could have been valid (the API's refresh_token_ttl).
+     */
+    public rotate = (apiId: string, usedRefreshToken: string, family: RefreshTokenFamily, accessToken: string, refreshToken: string, callback: SimpleCallback) => {
+        debug('rotate()');
+        const instance = this;
+        oauth2.getRefreshTokenTtl(apiId, function (err, ttlSeconds) {
+            if (err)
+                return callback(err);
+            const familyId = family ? family.family_id : utils.createRandomId();
+            const familyKey = instance.familyKey(familyId);
+            const usedFamily: RefreshTokenFamily = { family_id: familyId, used: true };
+            const newFamily: RefreshTokenFamily = { family_id: familyId, used: false };
+            const redis = redisConnection.getRedis();
+            const multi = redis.multi();
+            // A refresh_token_ttl of 0 means that the refresh tokens never expire
+            if (ttlSeconds > 0) {
+                multi.set(instance.refreshTokenKey(usedRefreshToken), JSON.stringify(usedFamily), 'EX', ttlSeconds)
+                    .set(instance.refreshTokenKey(refreshToken), JSON.stringify(newFamily), 'EX', ttlSeconds)
+                    .sadd(familyKey, accessToken)
+                    .expire(familyKey, ttlSeconds);
+            } else {
+                multi.set(instance.refreshTokenKey(usedRefreshToken), JSON.stringify(usedFamily))
+                    .set(instance.refreshTokenKey(refreshToken), JSON.stringify(newFamily))
+                    .sadd(familyKey, accessToken);
+            }
+            multi.exec((err) => callback(err));
+        });
+    };
+
+    /**
+     * Deletes all access tokens (and thus their refresh tokens) of the family from Kong.
+     * Tokens which were already refreshed are not in Kong anymore, so errors are only logged.
+     */
+    public revokeFamily = (familyId: string, callback: SimpleCallback) => {
+        debug(`revokeFamily(${familyId})`);
+        const familyKey = this.familyKey(familyId);
+        const redis = redisConnection.getRedis();
+        redis.smembers(familyKey, function (err, accessTokens: string[]) {
+            if (err)
+                return callback(err);
+            async.eachSeries(accessTokens, function (accessToken: string, callback: SimpleCallback) {
+                tokens.deleteTokens(accessToken, null, function (err) {
+                    if (err)
+                        debug(`revokeFamily: Could not delete an access token of family ${familyId}, probably already refreshed.`);
+                    return callback(null);
+                });
+            }, function () {
+                redis.del(familyKey, (err) => callback(err));
+            });
+        });
+    };
+
+    private refreshTokenKey(refreshToken: string): string {
+        const sha256 = crypto.createHash('sha256');
+        sha256.update(refreshToken);
+        return 'refresh_token:' + sha256.digest('hex');
+    }
+
+    private familyKey(familyId: string): string {
+        return 'refresh_token_family:' + familyId;
+    }
+};
+
+export const refreshTokenStore = new RefreshTokenStore();
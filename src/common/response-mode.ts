@@ -0,0 +1,80 @@
+'use strict';
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:response-mode');
+const qs = require('querystring');
+const { URL } = require('url');
+
+const RESPONSE_MODES = ['query', 'fragment', 'form_post'];
+
+export const responseMode = {
+
+    /**
+     * The default response mode as per OAuth 2.0 Multiple Response Type Encoding
+     * Practices: "query" for the code, "fragment" as soon as a token is involved.
+     */
+    getDefault: function (responseType: string): string {
+        return responseType === 'code' ? 'query' : 'fragment';
+    },
+
+    /**
+     * Returns an error message if the response mode cannot be used with the given
+     * response type, otherwise null. Tokens must never be passed in the query.
+     */
+    validate: function (responseType: string, mode: string): string {
+        debug(`validate(${responseType}, ${mode})`);
+        if (!RESPONSE_MODES.find(m => m === mode))
+            return `Unsupported response_mode ${mode}, must be one of ${RESPONSE_MODES.join(', ')}`;
+        if (mode === 'query' && responseType !== 'code')
+            return `response_mode query cannot be used with response_type ${responseType}`;
+        return null;
+    },
+
+    /**
+     * Returns the response parameters to the client, either by redirecting to the
+     * redirect_uri (query or fragment), or by rendering an auto-submitting form
+     * which posts the parameters to the redirect_uri (form_post). Parameters which
+     * are not set are omitted.
+     */
+    respond: function (res, redirectUri: string, mode: string, params: object): void {
+        debug(`respond(${mode})`);
+        const responseParams = {};
+        for (let name in params) {
+            if (params[name] !== undefined && params[name] !== null)
+                responseParams[name] = params[name];
+        }
+        switch (mode) {
+            case 'form_post':
+                return res.render('form_post', {
+                    redirectUri: redirectUri,
+                    params: responseParams
+                });
+            case 'fragment': {
+                const uri = new URL(redirectUri);
+                uri.hash = qs.stringify(responseParams);
+                return res.redirect(uri.toString());
+            }
+            default: {
+                const uri = new URL(redirectUri);
+                for (let name in responseParams)
+                    uri.searchParams.set(name, responseParams[name]);
+                return res.redirect(uri.toString());
+            }
+        }
+    },
+
+    /**
+     * Parses the response parameters (code or access_token etc.) from a redirect
+     * URI which Kong returns, both from the query and the fragment. Query parameters
+     * which are already part of the registered redirect URI are skipped.
+     */
+    parseRedirectUri: function (redirectUri: string, registeredRedirectUri: string): any {
+        const uri = new URL(redirectUri);
+        const registeredUri = new URL(registeredRedirectUri);
+        const params = uri.hash ? qs.parse(uri.hash.substring(1)) : {};
+        uri.searchParams.forEach((value, name) => {
+            if (!registeredUri.searchParams.has(name))
+                params[name] = value;
+        });
+        return params;
+    }
+};
@@ -0,0 +1,119 @@
+'use strict';
+
+import { StringCallback, Jwk, JwkSet } from './types';
+import { WickedAuthServer, WickedSigningKey } from './wicked-types';
+import { failMessage, failError } from './utils-fail';
+import { utilsJwk } from './utils-jwk';
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:signing-keys');
+const jwt = require('jsonwebtoken');
+
+const SUPPORTED_ALGORITHMS = ['RS256', 'ES256'];
+
+export class SigningKeys {
+
+    private _keys: WickedSigningKey[] = [];
+    private _signingKey: WickedSigningKey = null;
+    private _jwks: JwkSet = { keys: [] };
+
+    constructor() {
+        debug(`constructor()`);
+        // Empty
+    }
+
+    public init(authServerConfig: WickedAuthServer): void {
+        debug('init()');
+        const keys = authServerConfig.signingKeys || [];
+        const jwks: JwkSet = { keys: [] };
+        for (let i = 0; i < keys.length; ++i) {
+            const key = keys[i];
+            if (!key.kid)
+                throw new Error(`signingKeys[${i}] does not have a "kid" property.`);
+            if (keys.find(k => k !== key && k.kid === key.kid))
+                throw new Error(`signingKeys[${i}]: The kid ${key.kid} is used more than once.`);
+            if (!SUPPORTED_ALGORITHMS.find(a => a === key.alg))
+                throw new Error(`signingKeys[${i}] (kid ${key.kid}): Unsupported algorithm "${key.alg}", must be one of ${SUPPORTED_ALGORITHMS.join(', ')}.`);
+            if (!key.publicKey)
+                throw new Error(`signingKeys[${i}] (kid ${key.kid}) does not have a "publicKey" property.`);
+            let jwk: Jwk = null;
+            try {
+                jwk = utilsJwk.pemToJwk(key.publicKey);
+            } catch (err) {
+                throw new Error(`signingKeys[${i}] (kid ${key.kid}): Invalid public key: ${err.message}`);
+            }
+            if ((key.alg === 'RS256' && jwk.kty !== 'RSA') ||
+                (key.alg === 'ES256' && jwk.kty !== 'EC'))
+                throw new Error(`signingKeys[${i}] (kid ${key.kid}): The public key does not match the algorithm ${key.alg}.`);
+            jwk.kid = key.kid;
+            jwk.use = 'sig';
+            jwk.alg = key.alg;
+            jwks.keys.push(jwk);
+        }
+
+        this._keys = keys;
+        this._jwks = jwks;
+        this._signingKey = keys.find(k => !!k.privateKey) || null;
+        if (!this._signingKey)
+            warn('The auth server configuration does not contain any signingKeys with a private key; ID tokens cannot be issued.');
+        else
+            info(`Signing tokens with key ${this._signingKey.kid} (${this._signingKey.alg}), publishing ${keys.length} key(s).`);
+    }
+
+    public getSigningKey(): WickedSigningKey {
+        return this._signingKey;
+    }
+
+    // All keys, also those which are not used for signing (anymore, or yet)
+    public getJwks(): JwkSet {
+        return this._jwks;
+    }
+
+    public getAlgorithms(): string[] {
+        const algorithms = [];
+        for (let i = 0; i < this._keys.length; ++i) {
+            if (this._keys[i].privateKey && !algorithms.find(a => a === this._keys[i].alg))
+                algorithms.push(this._keys[i].alg);
+        }
+        return algorithms;
+    }
+
+    // The optional type goes into the "typ" header, e.g. "at+jwt" for access tokens (RFC 9068)
+    public sign(payload: object, callback: StringCallback, type?: string): void {
+        debug('sign()');
+        const key = this.getSigningKey();
+        if (!key)
+            return failMessage(500, 'There are no signing keys configured for this auth server.', callback);
+        let token = null;
+        try {
+            const headers = type ? { kid: key.kid, typ: type } : { kid: key.kid };
+            token = jwt.sign(payload, key.privateKey, {
+                algorithm: key.alg,
+                headers: headers
+            });
+        } catch (err) {
+            error('sign: Signing the token failed.');
+            return failError(500, err, callback);
+        }
+        return callback(null, token);
+    }
+
+    // Verifies a token which was signed by this auth server, with the key given by its "kid"
+    public verify(token: string, verifyOptions: object, callback): void {
+        debug('verify()');
+        const decoded = jwt.decode(token, { complete: true });
+        if (!decoded || !decoded.header)
+            return failMessage(400, 'The token is not a valid JWT.', callback);
+        const key = this._keys.find(k => k.kid === decoded.header.kid);
+        if (!key)
+            return failMessage(400, `The token was not signed with a known key (kid ${decoded.header.kid}).`, callback);
+        let payload = null;
+        try {
+            payload = jwt.verify(token, key.publicKey, Object.assign({ algorithms: [key.alg] }, verifyOptions));
+        } catch (err) {
+            return failMessage(400, `The token could not be verified: ${err.message}`, callback);
+        }
+        return callback(null, payload);
+    }
+};
+
+export const signingKeys = new SigningKeys();
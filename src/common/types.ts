@@ -21,17 +21,200 @@ export interface TokenRequest extends OAuth2Request {
     code?: string,
     username?: string,
     password?: string,
-    refresh_token?: string
+    refresh_token?: string,
+    // PKCE (RFC 7636), only for the authorization code grant
+    code_verifier?: string,
+    // Needed for creating ID tokens (OpenID Connect)
+    nonce?: string,
+    auth_time?: number,
+    // Device authorization grant (RFC 8628)
+    device_code?: string,
+    // JWT bearer assertion grant (RFC 7523)
+    assertion?: string,
+    // Token exchange (RFC 8693)
+    subject_token?: string,
+    subject_token_type?: string,
+    requested_token_type?: string,
+    // JWK thumbprint of the DPoP proof (RFC 9449), if any; the tokens are bound to that key
+    dpop_jkt?: string,
+    // "x5t#S256" thumbprint of the client certificate (RFC 8705), if any
+    certificate_thumbprint?: string
+}
+
+// Token revocation (RFC 7009)
+export interface TokenRevocationRequest extends OAuth2Request {
+    token: string,
+    // "access_token" or "refresh_token"
+    token_type_hint?: string
+}
+
+// Token introspection (RFC 7662)
+export interface TokenIntrospectionRequest extends OAuth2Request {
+    token: string,
+    token_type_hint?: string,
+    // Alternative to client credentials, see WickedAuthMethod
+    introspection_secret?: string
+}
+
+export interface TokenIntrospection {
+    active: boolean,
+    scope?: string,
+    client_id?: string,
+    sub?: string,
+    // The API the token was issued for
+    aud?: string,
+    exp?: number,
+    iat?: number,
+    token_type?: string,
+    // Certificate-bound access tokens (RFC 8705)
+    cnf?: ConfirmationClaim
+}
+
+export interface TokenIntrospectionCallback {
+    (err, tokenIntrospection?: TokenIntrospection): void
 }
 
 export interface AuthRequest extends OAuth2Request {
     response_type: string,
+    // "query", "fragment" or "form_post"; defaults depending on the response_type
+    response_mode?: string,
     redirect_uri?: string,
     state?: string,
     prompt?: string,
     trusted?: boolean,
     scopesDiffer?: boolean,
-    plain?: boolean
+    plain?: boolean,
+    // Set once the redirect_uri has been verified; errors are then returned to the client
+    redirectUriValid?: boolean,
+    // PKCE (RFC 7636)
+    code_challenge?: string,
+    code_challenge_method?: string,
+    // OpenID Connect
+    nonce?: string,
+    // Maximum age (seconds) of the user's authentication, otherwise the user must log in again
+    max_age?: number,
+    // Passed on to the login form, or to the upstream IdP
+    login_hint?: string,
+    // Individually requested claims (OpenID Connect Core, 5.5)
+    claims?: ClaimsRequest,
+    // Set once the user was asked for missing essential claims in the registration form
+    essentialClaimsRequested?: boolean,
+    // Set if the user authorizes a device (RFC 8628) instead of a redirect
+    device_code?: string
+}
+
+export interface ClaimsRequest {
+    userinfo?: { [claim: string]: ClaimRequest },
+    id_token?: { [claim: string]: ClaimRequest }
+}
+
+// null means the claim is requested in the default manner
+export interface ClaimRequest {
+    essential?: boolean,
+    value?: any,
+    values?: any[]
+}
+
+// Pending device authorization (RFC 8628), stored in redis by device code
+export interface DeviceAuthorization {
+    api_id: string,
+    client_id: string,
+    app_id: string,
+    trusted: boolean,
+    scope: string[],
+    user_code: string,
+    // "pending", "approved" or "denied"
+    status: string,
+    // Minimum polling interval in seconds; increased on "slow_down"
+    interval: number,
+    last_poll?: number,
+    // UTC, in seconds
+    expires: number,
+    // Set when the user approves
+    authenticated_userid?: string,
+    profile?: OidcProfile,
+    auth_time?: number
+}
+
+export interface DeviceAuthorizationCallback {
+    (err, deviceAuthorization?: DeviceAuthorization): void
+}
+
+export interface DeviceAuthorizationResponse {
+    device_code: string,
+    user_code: string,
+    verification_uri: string,
+    verification_uri_complete: string,
+    expires_in: number,
+    interval: number
+}
+
+export interface DeviceAuthorizationResponseCallback {
+    (err, deviceAuthorizationResponse?: DeviceAuthorizationResponse): void
+}
+
+// OpenID Connect RP-Initiated Logout
+export interface LogoutRequest {
+    api_id: string,
+    id_token_hint?: string,
+    client_id?: string,
+    post_logout_redirect_uri?: string,
+    state?: string,
+    // From the id_token_hint, if given
+    sub?: string
+}
+
+export interface LogoutRequestCallback {
+    (err, logoutRequest?: LogoutRequest): void
+}
+
+// OpenID Connect Back-Channel Logout: a client which was authorized within a session
+export interface BackchannelLogoutClient {
+    auth_method_id: string,
+    api_id: string,
+    client_id: string,
+    sub: string
+}
+
+// A delivery which has not succeeded yet; kept in redis until it does, or gives up
+export interface PendingBackchannelLogout {
+    id: string,
+    client: BackchannelLogoutClient,
+    uri: string,
+    attempt: number
+}
+
+export interface BackchannelLogoutDelivery {
+    client_id: string,
+    api_id: string,
+    sub: string,
+    uri: string,
+    attempt: number,
+    success: boolean,
+    status?: number,
+    error?: string,
+    // UTC, in seconds
+    time: number
+}
+
+// Pushed authorization requests (RFC 9126)
+export interface PushedAuthorizationResponse {
+    request_uri: string,
+    expires_in: number
+}
+
+export interface PushedAuthorizationResponseCallback {
+    (err, pushedAuthorizationResponse?: PushedAuthorizationResponse): void
+}
+
+// Refresh token rotation: the lineage of a refresh token
+export interface RefreshTokenFamily {
+    family_id: string,
+    used: boolean
+}
+
+export interface RefreshTokenFamilyCallback {
+    (err, family?: RefreshTokenFamily): void
 }
 
 export interface AuthRequestCallback {
@@ -61,7 +244,9 @@ export interface AuthSession {
     authResponse?: AuthResponse,
     tmpAuthResponse?: AuthResponse,
     registrationNonce?: string,
-    grantData?: GrantProcessInfo
+    grantData?: GrantProcessInfo,
+    // Time (UTC, in seconds) the user last actively authenticated
+    authTime?: number
 };
 
 export interface OidcProfile {
@@ -73,7 +258,82 @@ export interface OidcProfile {
     name?: string,
     given_name?: string,
     family_name?: string,
-    phone?: string
+    phone?: string,
+    // Token exchange (RFC 8693): The client(s) acting on behalf of the user
+    act?: ActorClaim,
+    // Certificate-bound access token (RFC 8705); not a user claim, only stored with the profile
+    cnf?: ConfirmationClaim,
+    // The API the token was issued for; also only stored with the profile
+    api_id?: string,
+    // The claims requested for the UserInfo end point with the "claims" parameter
+    userinfo_claims?: string[],
+    // The same for the ID token, which is also issued when the token is refreshed
+    id_token_claims?: string[]
+};
+
+export interface ConfirmationClaim {
+    // Certificate-bound tokens (RFC 8705)
+    'x5t#S256'?: string,
+    // DPoP-bound tokens (RFC 9449)
+    jkt?: string
+};
+
+export interface ActorClaim {
+    sub: string,
+    // In case of a delegation chain, the previous actor
+    act?: ActorClaim
+};
+
+// The profile which is stored with an authorization code; in case the
+// client used PKCE, the challenge is kept with the profile until the
+// code is redeemed at the token end point. The same applies to the
+// information needed to create an ID token at the token end point.
+export interface CodeProfile extends OidcProfile {
+    code_challenge?: string,
+    code_challenge_method?: string,
+    nonce?: string,
+    auth_time?: number,
+    scope?: string[]
+};
+
+export interface IdTokenOptions {
+    // The granted scope (string or array); the ID token only contains the claims it allows
+    scope?: any,
+    // Plus the claims requested with the "claims" parameter
+    claims?: string[],
+    nonce?: string,
+    auth_time?: number,
+    // Used for at_hash
+    access_token?: string,
+    // Used for c_hash
+    code?: string
+};
+
+// OpenID Connect Core, 2; plus the user claims the scope allows
+export interface IdTokenClaims {
+    iss: string,
+    sub: string,
+    aud: string,
+    exp: number,
+    auth_time?: number,
+    nonce?: string,
+    at_hash?: string,
+    c_hash?: string,
+    [claim: string]: any
+};
+
+// RFC 9068, section 2.2; plus the profile claims configured for the API
+export interface JwtAccessTokenClaims {
+    iss: string,
+    sub: string,
+    aud: string,
+    client_id: string,
+    iat: number,
+    exp: number,
+    jti: string,
+    scope?: string,
+    cnf?: ConfirmationClaim,
+    [claim: string]: any
 };
 
 export interface EndpointDefinition {
@@ -206,7 +466,15 @@ export interface TokenInfo {
     access_token: string,
     refresh_token: string,
     authenticated_userid?: string,
-    authenticated_scope?: string
+    authenticated_scope?: string,
+    scope?: string,
+    // The Kong oauth2 credential the token was issued to
+    credential_id?: string,
+    token_type?: string,
+    // Seconds; 0 means the token does not expire
+    expires_in?: number,
+    // Milliseconds since the epoch
+    created_at?: number
 };
 
 export interface KongTokenInfo {
@@ -230,6 +498,10 @@ export interface NumberCallback {
     (err, n?: number): void
 };
 
+export interface BooleanCallback {
+    (err, b?: boolean): void
+};
+
 export interface OidcProfileCallback {
     (err, profile?: OidcProfile): void
 };
@@ -256,15 +528,48 @@ export interface ValidatedScopesCallback {
     (err, validatedScopes?: ValidatedScopes): void
 };
 
+// Client authentication at the token end point etc., see client-auth.ts
+export interface ClientCredentials {
+    client_id: string,
+    client_secret?: string,
+    // "client_secret_basic", "client_secret_post", "client_secret_jwt", "private_key_jwt",
+    // "tls_client_auth", "self_signed_tls_client_auth" or "none"
+    method: string,
+    // Thumbprint of the TLS client certificate, if any; issued tokens are bound to it
+    certificate_thumbprint?: string
+}
+
+export interface ClientCertificate {
+    // "x5t#S256" thumbprint
+    thumbprint: string,
+    subject_dn: string,
+    // Whether the certificate chain was verified (by the TLS terminating proxy)
+    verified: boolean
+}
+
+export interface ClientCredentialsCallback {
+    (err, clientCredentials?: ClientCredentials): void
+}
+
 export interface StringCallback {
     (err, s?: string): void
 };
 
+export interface StringArrayCallback {
+    (err, a?: string[]): void
+};
+
 export interface AccessToken {
     access_token?: string,
     refresh_token?: string,
     token_type?: string,
     expires_in?: number,
+    // OpenID Connect, if the openid scope was requested
+    id_token?: string,
+    // Token exchange (RFC 8693)
+    issued_token_type?: string,
+    // JWT access token (RFC 9068) in addition to the Kong token, if the API's access_token_format is "both"
+    jwt_access_token?: string,
     // error case:
     error?: string,
     error_description?: string,
@@ -276,6 +581,62 @@ export interface AccessTokenCallback {
     (err, accessToken?: AccessToken): void
 }
 
+// JSON Web Key (RFC 7517), only the properties we need for RSA and EC keys
+export interface Jwk {
+    kty: string,
+    kid?: string,
+    use?: string,
+    alg?: string,
+    // RSA
+    n?: string,
+    e?: string,
+    // EC
+    crv?: string,
+    x?: string,
+    y?: string,
+    // Private keys only (RSA and EC); never published, and rejected where a public key is expected
+    d?: string
+}
+
+export interface JwkSet {
+    keys: Jwk[]
+}
+
+// OpenID Connect Discovery 1.0 and OAuth 2.0 Authorization Server Metadata (RFC 8414)
+export interface AuthServerMetadata {
+    issuer: string,
+    authorization_endpoint: string,
+    token_endpoint: string,
+    device_authorization_endpoint?: string,
+    end_session_endpoint: string,
+    backchannel_logout_supported: boolean,
+    backchannel_logout_session_supported: boolean,
+    registration_endpoint?: string,
+    pushed_authorization_request_endpoint: string,
+    require_pushed_authorization_requests: boolean,
+    userinfo_endpoint: string,
+    revocation_endpoint: string,
+    introspection_endpoint: string,
+    jwks_uri: string,
+    scopes_supported: string[],
+    response_types_supported: string[],
+    response_modes_supported: string[],
+    grant_types_supported: string[],
+    subject_types_supported: string[],
+    id_token_signing_alg_values_supported: string[],
+    token_endpoint_auth_methods_supported: string[],
+    token_endpoint_auth_signing_alg_values_supported: string[],
+    code_challenge_methods_supported: string[],
+    tls_client_certificate_bound_access_tokens: boolean,
+    request_parameter_supported: boolean,
+    request_uri_parameter_supported: boolean,
+    require_request_uri_registration: boolean,
+    request_object_signing_alg_values_supported: string[],
+    claims_parameter_supported: boolean,
+    // DPoP (RFC 9449, section 5.1)
+    dpop_signing_alg_values_supported: string[]
+}
+
 export interface NameSpec {
     fullName: string,
     firstName?: string,
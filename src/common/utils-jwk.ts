@@ -0,0 +1,51 @@
+'use strict';
+
+import { Jwk } from './types';
+
+const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:utils-jwk');
+const { JWK } = require('jose');
+
+export const utilsJwk = {
+
+    /**
+     * Converts a PEM encoded public key (SubjectPublicKeyInfo, "BEGIN PUBLIC KEY")
+     * into a JSON Web Key (RFC 7517). Supports RSA keys and EC keys on the P-256
+     * curve. Throws an Error if the key cannot be parsed.
+     */
+    pemToJwk: function (pem: string): Jwk {
+        debug('pemToJwk()');
+        const key = asPublicKey(pem);
+        const jwk: Jwk = key.toJWK();
+        // The kid is up to the caller
+        delete jwk.kid;
+        return jwk;
+    },
+
+    /**
+     * The inverse of pemToJwk: Converts a public RSA or EC (P-256) JSON Web Key into a
+     * PEM encoded public key, e.g. for verifying a JWT with a key from its "jwk" header.
+     * Throws an Error if the key is not supported.
+     */
+    jwkToPem: function (jwk: Jwk): string {
+        debug('jwkToPem()');
+        return asPublicKey(jwk).toPEM();
+    },
+
+    // JWK thumbprint (RFC 7638): SHA-256 of the required members, in lexicographic order
+    getThumbprint: function (jwk: Jwk): string {
+        return asPublicKey(jwk).thumbprint;
+    }
+};
+
+// ==============================
+// HELPER METHODS
+// ==============================
+
+function asPublicKey(key: string | Jwk) {
+    const publicKey = JWK.asKey(key);
+    if (publicKey.type !== 'public')
+        throw new Error('Expected a public key.');
+    if (publicKey.kty !== 'RSA' && !(publicKey.kty === 'EC' && publicKey.crv === 'P-256'))
+        throw new Error('Unsupported key type, only RSA and EC (P-256) keys are supported.');
+    return publicKey;
+}
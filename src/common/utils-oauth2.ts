@@ -1,15 +1,73 @@
 'use strict';
 
-import { WickedApiScopes, WickedApi, WickedSubscriptionInfo, WickedUserInfo } from "./wicked-types";
-import { WickedApiScopesCallback, AuthRequest, AuthRequestCallback, SubscriptionValidationCallback, ValidatedScopesCallback, TokenRequest, SimpleCallback, TokenInfoCallback, OidcProfile, OidcProfileCallback, AccessTokenCallback, AuthResponse, SubscriptionValidation, OAuth2Request } from "./types";
+import { WickedApiScopes, WickedApi, WickedApplication, WickedSubscriptionInfo, WickedUserInfo, WickedGrant, WickedPool } from "./wicked-types";
+import { WickedApiScopesCallback, AuthRequest, AuthRequestCallback, SubscriptionValidationCallback, ValidatedScopesCallback, TokenRequest, SimpleCallback, TokenInfoCallback, OidcProfile, OidcProfileCallback, AccessTokenCallback, AuthResponse, SubscriptionValidation, OAuth2Request, CodeProfile, IdTokenOptions, StringCallback, TokenRevocationRequest, TokenIntrospectionRequest, TokenIntrospection, TokenIntrospectionCallback, IdTokenClaims, DeviceAuthorization, DeviceAuthorizationResponseCallback, AuthResponseCallback, PushedAuthorizationResponseCallback, ClientCredentials, LogoutRequest, LogoutRequestCallback, StringArrayCallback, ClaimsRequest, BooleanCallback } from "./types";
 
 const async = require('async');
 const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:utils-oauth2');
 const wicked = require('wicked-sdk');
 const request = require('request');
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const qs = require('querystring');
+
+// RFC 7636, section 4.1 and 4.2: 43-128 characters from the "unreserved" set
+const PKCE_FORMAT = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+// Normalized, i.e. with sorted response types
+const SUPPORTED_RESPONSE_TYPES = ['code', 'token', 'id_token', 'code id_token', 'id_token token'];
+
+const ID_TOKEN_EXPIRES_SECONDS = 3600;
+
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+const DEVICE_CODE_EXPIRES_SECONDS = 600;
+// Polling interval for the device code grant, and the increase on "slow_down" (RFC 8628, 3.5)
+const DEVICE_POLLING_INTERVAL = 5;
+
+const JWT_BEARER_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:jwt-bearer';
+// Assertions which are valid for longer than this are rejected (RFC 7523, section 3)
+const JWT_ASSERTION_MAX_LIFETIME_SECONDS = 3600;
+
+const TOKEN_EXCHANGE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:token-exchange';
+// The only token type supported for token exchange, as subject and as issued token
+const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+
+// Lifetime of a request_uri from the par end point (RFC 9126)
+const PUSHED_REQUEST_EXPIRES_SECONDS = 60;
+
+// Signed authorization requests (RFC 9101)
+const REQUEST_OBJECT_ALGORITHMS = ['RS256', 'ES256'];
+const REQUEST_OBJECT_FETCH_TIMEOUT = 5000; // ms
+const REQUEST_OBJECT_MAX_SIZE = 64 * 1024; // bytes
+
+// The parameters of an authorization request, either in the query or pushed (RFC 9126)
+const AUTHORIZE_PARAMETERS = ['client_id', 'response_type', 'redirect_uri', 'state', 'scope', 'prompt',
+    'code_challenge', 'code_challenge_method', 'nonce', 'response_mode', 'max_age', 'login_hint', 'claims'];
+
+// The claims the UserInfo end point returns per scope (OpenID Connect Core, 5.4); the
+// "sub" claim is always returned. Further mappings can be defined per API scope.
+const SCOPE_CLAIMS = {
+    profile: ['name', 'family_name', 'given_name', 'middle_name', 'nickname', 'preferred_username', 'username',
+        'profile', 'picture', 'website', 'gender', 'birthdate', 'zoneinfo', 'locale', 'updated_at'],
+    email: ['email', 'email_verified'],
+    phone: ['phone_number', 'phone_number_verified', 'phone'],
+    address: ['address']
+};
+
+// OpenID Connect Core, 3.1.2.1; "select_account" is handled like "login", as there is no account chooser
+const PROMPT_VALUES = ['none', 'login', 'consent', 'select_account'];
 
 import { failMessage, failError, failOAuth, makeError } from './utils-fail';
 import { profileStore } from './profile-store';
+import { redisConnection } from './redis-connection';
+import { deviceStore } from './device-store';
+import { pushedRequestStore } from './pushed-request-store';
+import { responseMode } from './response-mode';
+import { redirectUris } from './redirect-uris';
+import { signingKeys } from './signing-keys';
+import { pairwiseSubject } from './pairwise-subject';
+import { jwtAccessTokens } from './jwt-access-tokens';
+import { dpop, DPOP_ALGORITHMS } from './dpop';
 
 import { utils } from './utils';
 import { oauth2 } from '../kong-oauth2/oauth2';
@@ -47,27 +105,89 @@ export class UtilsOAuth2 {
 
     public validateAuthorizeRequest = (authRequest: AuthRequest, callback: SubscriptionValidationCallback) => {
         debug(`validateAuthorizeRequest(${authRequest})`);
-        if (authRequest.response_type !== 'token' &&
-            authRequest.response_type !== 'code')
+        // The order of the response types does not matter ("id_token code" == "code id_token")
+        if (authRequest.response_type)
+            authRequest.response_type = authRequest.response_type.split(' ').filter(t => !!t).sort().join(' ');
+        if (!SUPPORTED_RESPONSE_TYPES.find(t => t === authRequest.response_type))
             return failMessage(400, `Invalid response_type ${authRequest.response_type}`, callback);
+        if (!authRequest.response_mode)
+            authRequest.response_mode = responseMode.getDefault(authRequest.response_type);
+        const responseModeError = responseMode.validate(authRequest.response_type, authRequest.response_mode);
+        if (responseModeError)
+            return failMessage(400, responseModeError, callback);
         if (!authRequest.client_id)
             return failMessage(400, 'Invalid or empty client_id.', callback);
         if (!authRequest.redirect_uri)
             return failMessage(400, 'Invalid or empty redirect_uri', callback);
+        const instance = this;
         this.validateSubscription(authRequest, function (err, subsValidation: SubscriptionValidation) {
             if (err)
                 return callback(err);
             const application = subsValidation.subsInfo.application;
             // Now we have a redirect_uri; we can now make use of failOAuth
-            if (!application.redirectUri)
+            if (redirectUris.getRegistered(application).length === 0)
                 return failOAuth(400, 'invalid_request', 'The application associated with the given client_id does not have a registered redirect_uri.', callback);
 
-            // Verify redirect_uri from application, has to match what is passed in
-            const uri1 = utils.stripTrailingSlash(authRequest.redirect_uri);
-            const uri2 = utils.stripTrailingSlash(subsValidation.subsInfo.application.redirectUri);
+            // Verify redirect_uri from application, has to match what is passed in. Don't
+            // use failOAuth here, this would redirect to the unverified redirect_uri.
+            if (!redirectUris.isRegistered(application, authRequest.redirect_uri))
+                return failMessage(400, 'The provided redirect_uri does not match any registered redirect_uri', callback);
+            // From now on, errors are returned to the client via the redirect_uri
+            authRequest.redirectUriValid = true;
 
-            if (uri1 !== uri2)
-                return failOAuth(400, 'invalid_request', 'The provided redirect_uri does not match the registered redirect_uri', callback);
+            // Hybrid response types need both grant types (OpenID Connect Dynamic Client Registration, 2)
+            const responseTypes = authRequest.response_type.split(' ');
+            if ((responseTypes.find(t => t === 'code') && !isGrantTypeRegistered(application, 'authorization_code')) ||
+                (responseTypes.find(t => t !== 'code') && !isGrantTypeRegistered(application, 'implicit')))
+                return failOAuth(400, 'unauthorized_client', `The client is not registered for response_type ${authRequest.response_type}`, callback);
+
+            if (authRequest.prompt) {
+                const prompts = authRequest.prompt.split(' ').filter(p => !!p);
+                const unknownPrompt = prompts.find(p => !PROMPT_VALUES.find(v => v === p));
+                if (unknownPrompt)
+                    return failOAuth(400, 'invalid_request', `Unsupported prompt value ${unknownPrompt}, must be one of ${PROMPT_VALUES.join(', ')}`, callback);
+                if (prompts.length > 1 && prompts.find(p => p === 'none'))
+                    return failOAuth(400, 'invalid_request', 'prompt none must not be combined with other values', callback);
+            }
+            // max_age is a string if passed in the query
+            if (authRequest.max_age !== undefined && authRequest.max_age !== null) {
+                const maxAge = Number(authRequest.max_age);
+                if (String(authRequest.max_age) === '' || !Number.isInteger(maxAge) || maxAge < 0)
+                    return failOAuth(400, 'invalid_request', 'max_age must be a non-negative integer', callback);
+                authRequest.max_age = maxAge;
+            }
+            if (authRequest.claims) {
+                const claimsError = instance.parseClaimsRequest(authRequest);
+                if (claimsError)
+                    return failOAuth(400, 'invalid_request', claimsError, callback);
+            }
+
+            // OpenID Connect: Response types containing an id_token require the openid
+            // scope, and a nonce to mitigate replay attacks.
+            if (authRequest.response_type.split(' ').find(t => t === 'id_token')) {
+                if (!instance.hasOpenIdScope(authRequest.scope))
+                    return failOAuth(400, 'invalid_request', `response_type ${authRequest.response_type} requires the openid scope`, callback);
+                if (!authRequest.nonce)
+                    return failOAuth(400, 'invalid_request', `response_type ${authRequest.response_type} requires a nonce`, callback);
+            }
+
+            // PKCE (RFC 7636); public clients cannot keep a client_secret, so they
+            // have to use PKCE to be able to redeem an authorization code.
+            if (authRequest.code_challenge) {
+                if (!authRequest.response_type.startsWith('code'))
+                    return failOAuth(400, 'invalid_request', 'code_challenge can only be used with response types containing code', callback);
+                if (!authRequest.code_challenge_method)
+                    authRequest.code_challenge_method = 'plain';
+                if (authRequest.code_challenge_method !== 'S256' &&
+                    authRequest.code_challenge_method !== 'plain')
+                    return failOAuth(400, 'invalid_request', `Unsupported code_challenge_method ${authRequest.code_challenge_method}, must be S256 or plain`, callback);
+                if (!PKCE_FORMAT.test(authRequest.code_challenge))
+                    return failOAuth(400, 'invalid_request', 'Invalid code_challenge, must be 43-128 characters long and only contain unreserved characters', callback);
+            } else if (authRequest.code_challenge_method) {
+                return failOAuth(400, 'invalid_request', 'code_challenge_method was passed without a code_challenge', callback);
+            } else if (authRequest.response_type.startsWith('code') && !application.confidential) {
+                return failOAuth(400, 'invalid_request', 'Public (non-confidential) clients must use PKCE (code_challenge) with the authorization code grant', callback);
+            }
 
             // Success
             return callback(null, subsValidation);
@@ -148,19 +268,29 @@ export class UtilsOAuth2 {
 
     public makeTokenRequest(req, apiId: string, authMethodId: string): TokenRequest {
         // Gather parameters from body. Note that not all parameters
-        // are used in all flows.
+        // are used in all flows. The client credentials may also be passed
+        // in other ways than in the body, see client-auth.ts.
+        const clientCredentials: ClientCredentials = req.clientCredentials;
         return {
             api_id: apiId,
             auth_method: req.app.get('server_name') + ':' + authMethodId,
             grant_type: req.body.grant_type,
             code: req.body.code,
             //redirect_uri: req.body.redirect_uri,
-            client_id: req.body.client_id,
-            client_secret: req.body.client_secret,
+            client_id: clientCredentials.client_id,
+            client_secret: clientCredentials.client_secret,
             scope: req.body.scope,
             username: req.body.username,
             password: req.body.password,
-            refresh_token: req.body.refresh_token
+            refresh_token: req.body.refresh_token,
+            code_verifier: req.body.code_verifier,
+            device_code: req.body.device_code,
+            assertion: req.body.assertion,
+            subject_token: req.body.subject_token,
+            subject_token_type: req.body.subject_token_type,
+            requested_token_type: req.body.requested_token_type,
+            dpop_jkt: req.dpopThumbprint,
+            certificate_thumbprint: clientCredentials.certificate_thumbprint
         };
     };
 
@@ -182,8 +312,11 @@ export class UtilsOAuth2 {
                 return failOAuth(400, 'invalid_request', 'code is missing.', callback);
             if (!tokenRequest.client_id)
                 return failOAuth(400, 'invalid_client', 'client_id is missing.', callback);
-            if (!tokenRequest.client_secret)
+            // Public clients authenticate the token request via PKCE instead of the client_secret
+            if (!tokenRequest.client_secret && !tokenRequest.code_verifier)
                 return failOAuth(400, 'invalid_client', 'client_secret is missing.', callback);
+            if (tokenRequest.code_verifier && !PKCE_FORMAT.test(tokenRequest.code_verifier))
+                return failOAuth(400, 'invalid_request', 'Invalid code_verifier, must be 43-128 characters long and only contain unreserved characters', callback);
         } else if (tokenRequest.grant_type === 'password') {
             if (!tokenRequest.client_id)
                 return failOAuth(400, 'invalid_client', 'client_id is missing.', callback);
@@ -199,12 +332,50 @@ export class UtilsOAuth2 {
             // For confidential clients, the client_secret will also be checked (by the OAuth2 adapter)
             if (!tokenRequest.refresh_token)
                 return failOAuth(400, 'invalid_request', 'refresh_token is missing.', callback);
+        } else if (tokenRequest.grant_type === TOKEN_EXCHANGE_GRANT_TYPE) {
+            if (!tokenRequest.client_id)
+                return failOAuth(400, 'invalid_client', 'client_id is missing.', callback);
+            // For confidential clients, the client_secret will also be checked (by the OAuth2 adapter)
+            if (!tokenRequest.subject_token)
+                return failOAuth(400, 'invalid_request', 'subject_token is missing.', callback);
+            if (tokenRequest.subject_token_type !== ACCESS_TOKEN_TYPE)
+                return failOAuth(400, 'invalid_request', `subject_token_type must be ${ACCESS_TOKEN_TYPE}.`, callback);
+            if (tokenRequest.requested_token_type && tokenRequest.requested_token_type !== ACCESS_TOKEN_TYPE)
+                return failOAuth(400, 'invalid_request', `requested_token_type must be ${ACCESS_TOKEN_TYPE}.`, callback);
+        } else if (tokenRequest.grant_type === JWT_BEARER_GRANT_TYPE) {
+            if (!tokenRequest.client_id)
+                return failOAuth(400, 'invalid_client', 'client_id is missing.', callback);
+            // For confidential clients, the client_secret will also be checked (by the OAuth2 adapter)
+            if (!tokenRequest.assertion)
+                return failOAuth(400, 'invalid_request', 'assertion is missing.', callback);
+        } else if (tokenRequest.grant_type === DEVICE_CODE_GRANT_TYPE) {
+            if (!tokenRequest.client_id)
+                return failOAuth(400, 'invalid_client', 'client_id is missing.', callback);
+            // For confidential clients, the client_secret will also be checked (by the OAuth2 adapter)
+            if (!tokenRequest.device_code)
+                return failOAuth(400, 'invalid_request', 'device_code is missing.', callback);
         } else {
             return failOAuth(400, 'unsupported_grant_type', `The grant_type '${tokenRequest.grant_type}' is not supported or is unknown.`, callback);
         }
         return callback(null);
     };
 
+    // Dynamically registered clients (RFC 7591) may only use the grant types and the
+    // client authentication method they registered.
+    public validateRegisteredClient = (tokenRequest: TokenRequest, clientAuthMethod: string, callback: SimpleCallback) => {
+        debug(`validateRegisteredClient(${tokenRequest.client_id}, ${clientAuthMethod})`);
+        wicked.getSubscriptionByClientId(tokenRequest.client_id, tokenRequest.api_id, function (err, subsInfo: WickedSubscriptionInfo) {
+            if (err || !subsInfo.application)
+                return failOAuth(401, 'invalid_client', 'client authentication failed', err, callback);
+            const application = subsInfo.application;
+            if (application.tokenEndpointAuthMethod && application.tokenEndpointAuthMethod !== clientAuthMethod)
+                return failOAuth(401, 'invalid_client', `The client must authenticate using ${application.tokenEndpointAuthMethod}.`, callback);
+            if (!isGrantTypeRegistered(application, tokenRequest.grant_type))
+                return failOAuth(400, 'unauthorized_client', `The client is not registered for the grant_type '${tokenRequest.grant_type}'.`, callback);
+            return callback(null);
+        });
+    };
+
     public tokenClientCredentials = (tokenRequest: TokenRequest, callback: AccessTokenCallback) => {
         debug('tokenClientCredentials()');
         const instance = this;
@@ -223,11 +394,36 @@ export class UtilsOAuth2 {
 
     public tokenAuthorizationCode = (tokenRequest: TokenRequest, callback: AccessTokenCallback) => {
         debug('tokenAuthorizationCode()');
-        // We can just pass this on to the wicked SDK, and the register the token.
-        oauth2.token(tokenRequest, (err, accessToken) => {
+        const instance = this;
+        // Check the PKCE code_verifier (if applicable) before we let Kong redeem
+        // the code; the code challenge is stored with the profile.
+        profileStore.retrieve(tokenRequest.code, (err, codeProfile: CodeProfile) => {
             if (err)
                 return callback(err);
-            profileStore.retrieve(tokenRequest.code, (err, profile) => {
+            if (!codeProfile)
+                return failOAuth(400, 'invalid_grant', 'The given authorization code is invalid or has expired.', callback);
+            if (codeProfile.code_challenge) {
+                if (!tokenRequest.code_verifier)
+                    return failOAuth(400, 'invalid_grant', 'code_verifier is missing; the authorization request used PKCE.', callback);
+                if (!instance.verifyCodeChallenge(codeProfile.code_challenge, codeProfile.code_challenge_method, tokenRequest.code_verifier))
+                    return failOAuth(400, 'invalid_grant', 'code_verifier does not match the code_challenge of the authorization request.', callback);
+            } else if (tokenRequest.code_verifier) {
+                return failOAuth(400, 'invalid_grant', 'code_verifier was passed, but the authorization request did not contain a code_challenge.', callback);
+            }
+            // Needed for the ID token, in case the openid scope was requested
+            tokenRequest.scope = codeProfile.scope;
+            tokenRequest.nonce = codeProfile.nonce;
+            tokenRequest.auth_time = codeProfile.auth_time;
+
+            const profile = utils.clone(codeProfile) as CodeProfile;
+            delete profile.code_challenge;
+            delete profile.code_challenge_method;
+            delete profile.nonce;
+            delete profile.auth_time;
+            delete profile.scope;
+
+            // We can just pass this on to the wicked SDK, and the register the token.
+            oauth2.token(tokenRequest, (err, accessToken) => {
                 if (err)
                     return callback(err);
                 accessToken.session_data = profile;
@@ -255,32 +451,923 @@ export class UtilsOAuth2 {
         });
     }
 
-    public getProfile(req, res, next) {
+    // Authenticates a client for direct calls to the auth server (i.e. not via
+    // the Kong adapter); confidential clients must pass their client_secret.
+    public authenticateClient = (oauthRequest: OAuth2Request, callback: SubscriptionValidationCallback) => {
+        debug(`authenticateClient(${oauthRequest.client_id})`);
+        if (!oauthRequest.client_id)
+            return failOAuth(401, 'invalid_client', 'client_id is missing.', callback);
+        this.validateSubscription(oauthRequest, function (err, validationResult) {
+            if (err)
+                return failOAuth(401, 'invalid_client', 'client authentication failed', err, callback);
+            const subsInfo = validationResult.subsInfo;
+            if (subsInfo.application.confidential) {
+                if (!oauthRequest.client_secret)
+                    return failOAuth(401, 'invalid_client', 'client_secret is missing.', callback);
+                if (!utils.safeEquals(oauthRequest.client_secret, subsInfo.subscription.clientSecret))
+                    return failOAuth(401, 'invalid_client', 'client authentication failed', callback);
+            }
+            return callback(null, validationResult);
+        });
+    };
+
+    public revokeToken = (revocationRequest: TokenRevocationRequest, callback: SimpleCallback) => {
+        debug(`revokeToken(${revocationRequest.token_type_hint})`);
+        if (!revocationRequest.token)
+            return failOAuth(400, 'invalid_request', 'token is missing.', callback);
+        const instance = this;
+        this.authenticateClient(revocationRequest, function (err) {
+            if (err)
+                return callback(err);
+
+            // Invalid tokens do not cause an error response (RFC 7009, section 2.2)
+            instance.resolveAccessToken(revocationRequest.token, function (err, token) {
+                if (err)
+                    return failOAuth(500, 'server_error', 'could not verify the token', err, callback);
+                if (!token)
+                    return callback(null);
+                instance.getTokenData(token, revocationRequest.token_type_hint, function (err, tokenInfo) {
+                    if (err) {
+                        if (err.status === 404)
+                            return callback(null);
+                        return callback(err);
+                    }
+                    tokens.getCredentialIdByClientId(revocationRequest.client_id, function (err, credentialId) {
+                        if (err)
+                            return failOAuth(500, 'server_error', 'could not retrieve the credentials of the client', err, callback);
+                        if (tokenInfo.credential_id !== credentialId)
+                            return failOAuth(400, 'unauthorized_client', 'the token was not issued to this client', callback);
+                        tokens.deleteTokensByAccessToken(tokenInfo.access_token, function (err) {
+                            if (err)
+                                return failOAuth(503, 'server_error', 'could not revoke the token', err, callback);
+                            profileStore.deleteTokenOrCode(tokenInfo.access_token, callback);
+                        });
+                    });
+                });
+            });
+        });
+    };
+
+    // Device authorization end point (RFC 8628, section 3.1 and 3.2)
+    public authorizeDevice = (authMethodId: string, deviceRequest: OAuth2Request, callback: DeviceAuthorizationResponseCallback) => {
+        debug(`authorizeDevice(${authMethodId})`);
+        const instance = this;
+        this.authenticateClient(deviceRequest, function (err, validationResult) {
+            if (err)
+                return callback(err);
+            utils.getApiInfo(deviceRequest.api_id, function (err, apiInfo) {
+                if (err)
+                    return failOAuth(500, 'server_error', 'could not retrieve API information', err, callback);
+                if (!apiInfo.settings || !apiInfo.settings.enable_device_grant)
+                    return failOAuth(400, 'unauthorized_client', `The API ${deviceRequest.api_id} is not configured for the OAuth2 device authorization grant.`, callback);
+                instance.validateApiScopes(deviceRequest.api_id, deviceRequest.scope, validationResult.trusted, function (err, scopeInfo) {
+                    if (err)
+                        return failOAuth(400, 'invalid_scope', err.message, callback);
+                    const deviceAuthorization: DeviceAuthorization = {
+                        api_id: deviceRequest.api_id,
+                        client_id: deviceRequest.client_id,
+                        app_id: deviceRequest.app_id,
+                        trusted: validationResult.trusted,
+                        scope: scopeInfo.validatedScopes,
+                        user_code: null,
+                        status: 'pending',
+                        interval: DEVICE_POLLING_INTERVAL,
+                        expires: utils.getUtc() + DEVICE_CODE_EXPIRES_SECONDS
+                    };
+                    deviceStore.create(deviceAuthorization, function (err, deviceCode) {
+                        if (err)
+                            return failOAuth(500, 'server_error', 'could not store the device authorization', err, callback);
+                        const userCode = deviceStore.formatUserCode(deviceAuthorization.user_code);
+                        const verificationUri = `${utils.getExternalUrl()}/${authMethodId}/device`;
+                        return callback(null, {
+                            device_code: deviceCode,
+                            user_code: userCode,
+                            verification_uri: verificationUri,
+                            verification_uri_complete: `${verificationUri}?user_code=${qs.escape(userCode)}`,
+                            expires_in: DEVICE_CODE_EXPIRES_SECONDS,
+                            interval: DEVICE_POLLING_INTERVAL
+                        });
+                    });
+                });
+            });
+        });
+    };
+
+    // Pushed authorization request end point (RFC 9126, section 2); the request is
+    // validated like an authorization request, but with client authentication.
+    public pushAuthorizationRequest = (authMethodId: string, parRequest: OAuth2Request, body, callback: PushedAuthorizationResponseCallback) => {
+        debug(`pushAuthorizationRequest(${authMethodId}, ${parRequest.api_id})`);
+        if (body.request_uri)
+            return failOAuth(400, 'invalid_request', 'request_uri must not be used in a pushed authorization request.', callback);
+        // The request is pushed for the authenticated client only (RFC 9126, section 2.1)
+        if (body.client_id && body.client_id !== parRequest.client_id)
+            return failOAuth(400, 'invalid_request', 'client_id does not match the authenticated client.', callback);
+        const params = Object.assign({}, body, { client_id: parRequest.client_id });
+        const instance = this;
+        this.authenticateClient(parRequest, function (err) {
+            if (err)
+                return callback(err);
+            instance.resolveRequestObject(authMethodId, parRequest.api_id, params, function (err, pushedRequest) {
+                if (err)
+                    return callback(err);
+                // Only store what was passed in; it is validated again at the authorize end point
+                const authRequest = Object.assign({ auth_method: parRequest.auth_method }, pushedRequest);
+                instance.validateAuthorizeRequest(authRequest, function (err) {
+                    if (err) {
+                        // There is no redirect here, all errors are returned as JSON
+                        if (err.oauthError)
+                            return callback(err);
+                        return failOAuth(400, 'invalid_request', err.message, callback);
+                    }
+                    pushedRequestStore.store(pushedRequest, PUSHED_REQUEST_EXPIRES_SECONDS, function (err, requestUri) {
+                        if (err)
+                            return failOAuth(500, 'server_error', 'could not store the authorization request', err, callback);
+                        return callback(null, {
+                            request_uri: requestUri,
+                            expires_in: PUSHED_REQUEST_EXPIRES_SECONDS
+                        });
+                    });
+                });
+            });
+        });
+    };
+
+    // Returns the parameters of an authorization request, either from the query, from
+    // a pushed authorization request (RFC 9126), or from a request object (RFC 9101).
+    // Note that the result has not been validated yet.
+    public getAuthorizeParameters = (authMethodId: string, apiId: string, query, callback: AuthRequestCallback) => {
+        debug(`getAuthorizeParameters(${authMethodId}, ${apiId})`);
+        if (query.request_uri && pushedRequestStore.isPushedRequestUri(query.request_uri)) {
+            return pushedRequestStore.retrieve(query.request_uri, function (err, pushedRequest) {
+                if (err)
+                    return failError(500, err, callback);
+                // The client_id is required in addition to the request_uri (RFC 9126, section 4)
+                if (!pushedRequest || pushedRequest.api_id !== apiId || pushedRequest.client_id !== query.client_id)
+                    return failMessage(400, 'Invalid or expired request_uri.', callback);
+                return callback(null, pushedRequest);
+            });
+        }
+        const instance = this;
+        utils.getApiInfo(apiId, function (err, apiInfo) {
+            if (err)
+                return failError(500, err, callback);
+            if (apiInfo.settings && apiInfo.settings.require_pushed_authorization_requests)
+                return failMessage(400, `The API ${apiId} only accepts pushed authorization requests (request_uri).`, callback);
+            return instance.resolveRequestObject(authMethodId, apiId, query, callback);
+        });
+    };
+
+    // Takes the authorization request parameters from the given query or body; if it
+    // contains a "request" or "request_uri" parameter, the request object is verified with
+    // the keys of the client's application, and its claims override the plain parameters
+    // (RFC 9101, section 6.3).
+    private resolveRequestObject(authMethodId: string, apiId: string, params, callback: AuthRequestCallback): void {
+        debug(`resolveRequestObject(${authMethodId}, ${apiId})`);
+        const authRequest = {
+            api_id: apiId
+        } as AuthRequest;
+        for (let name of AUTHORIZE_PARAMETERS)
+            authRequest[name] = params[name];
+        if (!params.request && !params.request_uri)
+            return callback(null, authRequest);
+        if (params.request && params.request_uri)
+            return failOAuth(400, 'invalid_request', 'request and request_uri must not be used together.', callback);
+        if (!params.client_id)
+            return failOAuth(400, 'invalid_request', 'client_id is required with a request object.', callback);
+
+        const instance = this;
+        wicked.getSubscriptionByClientId(params.client_id, apiId, function (err, subsInfo: WickedSubscriptionInfo) {
+            if (err)
+                return failOAuth(400, 'invalid_request', 'could not validate client_id', err, callback);
+            instance.fetchRequestObject(subsInfo.application, params, function (err, requestObject) {
+                if (err)
+                    return callback(err);
+                instance.verifyRequestObject(authMethodId, apiId, subsInfo.application, params.client_id, requestObject, function (err, claims) {
+                    if (err)
+                        return callback(err);
+                    // RFC 9101, section 5: client_id must match, and the redirect_uri must not be
+                    // changed by the (unsigned) query parameters.
+                    if (claims.client_id !== params.client_id)
+                        return failOAuth(400, 'invalid_request_object', 'The client_id of the request object does not match.', callback);
+                    if (params.redirect_uri && claims.redirect_uri && claims.redirect_uri !== params.redirect_uri)
+                        return failOAuth(400, 'invalid_request_object', 'The redirect_uri of the request object does not match.', callback);
+                    for (let name of AUTHORIZE_PARAMETERS) {
+                        if (claims[name] !== undefined)
+                            authRequest[name] = claims[name];
+                    }
+                    return callback(null, authRequest);
+                });
+            });
+        });
+    }
+
+    // The authorize end point is not authenticated, so only request_uris which are registered
+    // for the client's application (requestUris) are fetched; otherwise anybody could make
+    // the authorization server call arbitrary URLs.
+    private fetchRequestObject(application: WickedApplication, params, callback: StringCallback): void {
+        if (params.request)
+            return callback(null, params.request);
+        // The fragment may be used by the client to refresh cached request objects (RFC 9101, section 5.2)
+        const requestUri = String(params.request_uri);
+        const registeredUri = requestUri.split('#')[0];
+        if (!(application.requestUris || []).find(u => u.split('#')[0] === registeredUri))
+            return failOAuth(400, 'invalid_request_uri', 'The request_uri is not registered for the client.', callback);
+        // Only fetch from https URLs, and don't follow redirects
+        if (!/^https:\/\//.test(requestUri))
+            return failOAuth(400, 'invalid_request_uri', 'request_uri must be an https URL.', callback);
+        debug(`fetchRequestObject(${requestUri})`);
+        let done = false;
+        const finish = function (err, requestObject?: string) {
+            if (done)
+                return;
+            done = true;
+            return callback(err, requestObject);
+        };
+        const fetchRequest = request.get({
+            url: requestUri,
+            followRedirect: false,
+            timeout: REQUEST_OBJECT_FETCH_TIMEOUT
+        }, function (err, res, body) {
+            if (err)
+                return failOAuth(400, 'invalid_request_uri', 'could not retrieve the request object', err, finish);
+            if (res.statusCode !== 200 || !body)
+                return failOAuth(400, 'invalid_request_uri', `Retrieving the request object returned status ${res.statusCode}.`, finish);
+            return finish(null, String(body).trim());
+        });
+        let size = 0;
+        fetchRequest.on('data', function (chunk) {
+            size += chunk.length;
+            if (size > REQUEST_OBJECT_MAX_SIZE) {
+                fetchRequest.abort();
+                return failOAuth(400, 'invalid_request_uri', 'The request object is too large.', finish);
+            }
+        });
+    }
+
+    private verifyRequestObject(authMethodId: string, apiId: string, application: WickedApplication, clientId: string, requestObject: string, callback): void {
+        const decoded = jwt.decode(requestObject, { complete: true });
+        if (!decoded || !decoded.payload)
+            return failOAuth(400, 'invalid_request_object', 'The request object is not a valid JWT.', callback);
+        // Unsigned request objects (alg "none") are not accepted
+        const kid = decoded.header.kid;
+        const keys = (application.publicKeys || []).filter(k => !kid || k.kid === kid);
+        if (keys.length === 0)
+            return failOAuth(400, 'invalid_request_object', `No key registered for the request object (kid ${kid}).`, callback);
+
+        // The request object is issued by the client for this authorization server
+        const verifyOptions = {
+            algorithms: REQUEST_OBJECT_ALGORITHMS,
+            audience: this.getIssuer(authMethodId, apiId),
+            issuer: clientId
+        };
+        let payload = null;
+        let verifyError = null;
+        for (let i = 0; i < keys.length && !payload; ++i) {
+            try {
+                payload = jwt.verify(requestObject, keys[i].publicKey, verifyOptions);
+            } catch (err) {
+                verifyError = err;
+            }
+        }
+        if (!payload)
+            return failOAuth(400, 'invalid_request_object', `The request object could not be verified: ${verifyError.message}`, callback);
+        if (!payload.iss || !payload.aud || !payload.exp)
+            return failOAuth(400, 'invalid_request_object', 'The request object must contain "iss", "aud" and "exp" claims.', callback);
+        if (!payload.jti)
+            return callback(null, payload);
+        // Request objects must not be replayed; remember the jti until the request object expires
+        const ttlSeconds = Math.max(payload.exp - utils.getUtc(), 1);
+        const redis = redisConnection.getRedis();
+        redis.set(`request_object_jti:${clientId}:${payload.jti}`, '1', 'EX', ttlSeconds, 'NX', function (err, result) {
+            if (err)
+                return failOAuth(500, 'server_error', 'could not check the request object', err, callback);
+            if (!result)
+                return failOAuth(400, 'invalid_request_object', 'The request object has already been used.', callback);
+            return callback(null, payload);
+        });
+    }
+
+    // OpenID Connect RP-Initiated Logout 1.0, section 2 and 3: The post_logout_redirect_uri
+    // must be registered for the client, which is given by client_id or the id_token_hint.
+    // As the redirect cannot be trusted before it is validated, errors are not returned
+    // via the redirect.
+    public validateLogoutRequest = (authMethodId: string, logoutRequest: LogoutRequest, callback: LogoutRequestCallback) => {
+        debug(`validateLogoutRequest(${authMethodId}, ${logoutRequest.api_id})`);
+        const instance = this;
+        const verifyIdTokenHint = (callback: SimpleCallback) => {
+            if (!logoutRequest.id_token_hint)
+                return callback(null);
+            // The ID token may well have expired already
+            const verifyOptions = {
+                issuer: instance.getIssuer(authMethodId, logoutRequest.api_id),
+                ignoreExpiration: true
+            };
+            signingKeys.verify(logoutRequest.id_token_hint, verifyOptions, function (err, payload) {
+                if (err)
+                    return failMessage(400, `Invalid id_token_hint: ${err.message}`, callback);
+                if (logoutRequest.client_id && logoutRequest.client_id !== payload.aud)
+                    return failMessage(400, 'The client_id does not match the id_token_hint.', callback);
+                logoutRequest.client_id = payload.aud;
+                logoutRequest.sub = payload.sub;
+                return callback(null);
+            });
+        };
+        verifyIdTokenHint(function (err) {
+            if (err)
+                return callback(err);
+            if (!logoutRequest.post_logout_redirect_uri)
+                return callback(null, logoutRequest);
+            if (!logoutRequest.client_id)
+                return failMessage(400, 'post_logout_redirect_uri requires either client_id or id_token_hint.', callback);
+            wicked.getSubscriptionByClientId(logoutRequest.client_id, logoutRequest.api_id, function (err, subsInfo: WickedSubscriptionInfo) {
+                if (err)
+                    return failMessage(400, 'Invalid client_id.', callback);
+                if (!redirectUris.isRegistered(subsInfo.application, logoutRequest.post_logout_redirect_uri))
+                    return failMessage(400, 'The post_logout_redirect_uri does not match any registered redirect_uri.', callback);
+                return callback(null, logoutRequest);
+            });
+        });
+    };
+
+    // Device code grant (RFC 8628, section 3.4 and 3.5); the device polls this until the
+    // user has approved or denied the authorization (see GenericOAuth2Router).
+    public tokenDeviceCode = (tokenRequest: TokenRequest, callback: AccessTokenCallback) => {
+        debug('tokenDeviceCode()');
+        const deviceCode = tokenRequest.device_code;
+        deviceStore.retrieve(deviceCode, function (err, deviceAuthorization) {
+            if (err)
+                return failOAuth(500, 'server_error', 'could not retrieve the device authorization', err, callback);
+            if (!deviceAuthorization)
+                return failOAuth(400, 'expired_token', 'The device_code is invalid or has expired.', callback);
+            if (deviceAuthorization.client_id !== tokenRequest.client_id || deviceAuthorization.api_id !== tokenRequest.api_id)
+                return failOAuth(400, 'invalid_grant', 'The device_code was not issued to this client.', callback);
+
+            switch (deviceAuthorization.status) {
+                case 'pending':
+                    const now = utils.getUtc();
+                    const tooFast = deviceAuthorization.last_poll && (now - deviceAuthorization.last_poll < deviceAuthorization.interval);
+                    if (tooFast)
+                        deviceAuthorization.interval += DEVICE_POLLING_INTERVAL;
+                    deviceAuthorization.last_poll = now;
+                    return deviceStore.store(deviceCode, deviceAuthorization, function (err) {
+                        if (err)
+                            return failOAuth(400, 'expired_token', 'The device_code has expired.', err, callback);
+                        if (tooFast)
+                            return failOAuth(400, 'slow_down', `Polling too fast, the polling interval is now ${deviceAuthorization.interval} seconds.`, callback);
+                        return failOAuth(400, 'authorization_pending', 'The user has not yet completed the authorization.', callback);
+                    });
+                case 'denied':
+                    deviceStore.delete(deviceCode, deviceAuthorization.user_code);
+                    return failOAuth(400, 'access_denied', 'The user denied the authorization request.', callback);
+                case 'approved':
+                    // The device code can only be redeemed once
+                    deviceStore.delete(deviceCode, deviceAuthorization.user_code);
+                    tokenRequest.authenticated_userid = deviceAuthorization.authenticated_userid;
+                    tokenRequest.session_data = deviceAuthorization.profile;
+                    tokenRequest.scope = deviceAuthorization.scope;
+                    tokenRequest.auth_time = deviceAuthorization.auth_time;
+                    return oauth2.token(tokenRequest, callback);
+            }
+            return failOAuth(500, 'server_error', `Invalid device authorization status ${deviceAuthorization.status}`, callback);
+        });
+    };
+
+    // Token exchange (RFC 8693): Exchanges an access token of a user for a token for the
+    // target API (the api_id of the token request), on behalf of the same user. The new
+    // token only has the requested scopes, and its profile carries an "act" claim which
+    // identifies the calling client.
+    public tokenExchange = (tokenRequest: TokenRequest, callback: AccessTokenCallback) => {
+        debug('tokenExchange()');
+        const instance = this;
+        const apiId = tokenRequest.api_id;
+        utils.getApiInfo(apiId, function (err, apiInfo) {
+            if (err)
+                return failOAuth(500, 'server_error', 'could not retrieve API information', err, callback);
+            if (!apiInfo.settings || !apiInfo.settings.enable_token_exchange)
+                return failOAuth(400, 'unauthorized_client', `The API ${apiId} is not configured for token exchange.`, callback);
+            // The client must be subscribed to the target API
+            instance.validateSubscription(tokenRequest, function (err, validationResult) {
+                if (err)
+                    return callback(err);
+                tokens.getTokenDataByAccessToken(tokenRequest.subject_token, function (err, tokenInfo) {
+                    if (err)
+                        return failOAuth(400, 'invalid_grant', 'The subject_token is invalid.', callback);
+                    if (tokenInfo.expires_in && tokenInfo.created_at &&
+                        Math.floor(tokenInfo.created_at / 1000) + tokenInfo.expires_in <= utils.getUtc())
+                        return failOAuth(400, 'invalid_grant', 'The subject_token has expired.', callback);
+                    if (!tokenInfo.authenticated_userid)
+                        return failOAuth(400, 'invalid_grant', 'The subject_token was not issued on behalf of a user.', callback);
+                    profileStore.retrieve(tokenRequest.subject_token, function (err, profile) {
+                        if (err)
+                            return failOAuth(500, 'server_error', 'could not retrieve the profile of the subject_token', err, callback);
+                        if (!profile)
+                            return failOAuth(400, 'invalid_grant', 'The subject_token is invalid.', callback);
+                        // Only validate the requested scopes, even for trusted subscriptions;
+                        // the scopes are never widened to all scopes of the API.
+                        instance.validateApiScopes(apiId, tokenRequest.scope, false, function (err, scopeInfo) {
+                            if (err)
+                                return failOAuth(400, 'invalid_scope', err.message, callback);
+                            const userId = tokenInfo.authenticated_userid;
+                            const scope = scopeInfo.validatedScopes;
+                            // Grants are stored for the wicked user, not for a pairwise subject
+                            pairwiseSubject.resolveUserId(userId, function (err, wickedUserId) {
+                                if (err)
+                                    return failOAuth(500, 'server_error', 'could not resolve the user of the subject_token', err, callback);
+                                instance.checkUserGrants(wickedUserId, tokenRequest.app_id, apiId, scope, validationResult.trusted, function (err) {
+                                    if (err)
+                                        return callback(err);
+                                    // The new client gets its own subject for the user
+                                    pairwiseSubject.getSubject(apiId, tokenRequest.client_id, wickedUserId, function (err, sub) {
+                                        if (err)
+                                            return failOAuth(500, 'server_error', 'could not compute the subject of the user', err, callback);
+                                        const exchangedProfile = utils.clone(profile) as OidcProfile;
+                                        exchangedProfile.sub = sub;
+                                        exchangedProfile.act = { sub: tokenRequest.client_id };
+                                        if (profile.act)
+                                            exchangedProfile.act.act = profile.act;
+
+                                        tokenRequest.authenticated_userid = sub;
+                                        tokenRequest.session_data = exchangedProfile;
+                                        tokenRequest.scope = scope;
+                                        oauth2.token(tokenRequest, function (err, accessToken) {
+                                            if (err)
+                                                return callback(err);
+                                            accessToken.issued_token_type = ACCESS_TOKEN_TYPE;
+                                            return callback(null, accessToken);
+                                        });
+                                    });
+                                });
+                            });
+                        });
+                    });
+                });
+            });
+        });
+    };
+
+    // Untrusted applications may only get scopes the user has granted to them
+    private checkUserGrants(userId: string, appId: string, apiId: string, scope: string[], trusted: boolean, callback: SimpleCallback): void {
+        debug(`checkUserGrants(${userId}, ${appId}, ${apiId})`);
+        if (trusted || scope.length === 0)
+            return callback(null);
+        wicked.apiGet(`/grants/${userId}/applications/${appId}/apis/${apiId}`, function (err, grantsInfo: WickedGrant) {
+            if (err && err.status !== 404 && err.statusCode !== 404)
+                return failOAuth(500, 'server_error', 'could not retrieve the grants of the user', err, callback);
+            const grants = (grantsInfo && grantsInfo.grants) || [];
+            const missingGrants = scope.filter(s => !grants.find(g => g.scope === s));
+            if (missingGrants.length > 0)
+                return failOAuth(400, 'invalid_scope', `The user has not granted the scope(s) ${missingGrants.join(' ')} to the application.`, callback);
+            return callback(null);
+        });
+    }
+
+    // Verifies an assertion for the JWT bearer grant (RFC 7523, section 3) against the
+    // trusted issuers of the auth method, and returns an AuthResponse for the user
+    // which the assertion was issued for.
+    public verifyJwtAssertion = (authMethodId: string, apiId: string, assertion: string, callback: AuthResponseCallback) => {
+        debug(`verifyJwtAssertion(${authMethodId}, ${apiId})`);
+        const decoded = jwt.decode(assertion, { complete: true });
+        if (!decoded || !decoded.payload || !decoded.payload.iss)
+            return failOAuth(400, 'invalid_grant', 'The assertion is not a valid JWT, or does not contain an "iss" claim.', callback);
+
+        const authMethod = utils.getAuthMethod(authMethodId);
+        const trustedIssuers = (authMethod && authMethod.trustedIssuers) || [];
+        const trustedIssuer = trustedIssuers.find(i => i.issuer === decoded.payload.iss);
+        if (!trustedIssuer)
+            return failOAuth(400, 'invalid_grant', `The issuer ${decoded.payload.iss} of the assertion is not trusted.`, callback);
+
+        const kid = decoded.header.kid;
+        const keys = (trustedIssuer.keys || []).filter(k => !kid || k.kid === kid);
+        if (keys.length === 0)
+            return failOAuth(400, 'invalid_grant', `No key found for the assertion (kid ${kid}).`, callback);
+
+        // The assertion must be intended for us, i.e. for the token end point
+        const issuer = this.getIssuer(authMethodId, apiId);
+        const verifyOptions = {
+            algorithms: trustedIssuer.algorithms || ['RS256'],
+            issuer: trustedIssuer.issuer,
+            audience: [issuer, `${issuer}/token`]
+        };
+        let payload = null;
+        let verifyError = null;
+        for (let i = 0; i < keys.length && !payload; ++i) {
+            try {
+                payload = jwt.verify(assertion, keys[i].publicKey, verifyOptions);
+            } catch (err) {
+                verifyError = err;
+            }
+        }
+        if (!payload)
+            return failOAuth(400, 'invalid_grant', `The assertion could not be verified: ${verifyError.message}`, callback);
+        // These are optional for JWTs in general, but not for assertions.
+        if (!payload.exp || !payload.jti)
+            return failOAuth(400, 'invalid_grant', 'The assertion must contain "exp" and "jti" claims.', callback);
+        if (!payload.sub)
+            return failOAuth(400, 'invalid_grant', 'The assertion does not contain a "sub" claim.', callback);
+        const ttlSeconds = payload.exp - utils.getUtc();
+        if (ttlSeconds > JWT_ASSERTION_MAX_LIFETIME_SECONDS)
+            return failOAuth(400, 'invalid_grant', `The assertion must not be valid for more than ${JWT_ASSERTION_MAX_LIFETIME_SECONDS} seconds.`, callback);
+
+        const customIdField = trustedIssuer.customIdField || 'sub';
+        if (!payload[customIdField])
+            return failOAuth(400, 'invalid_grant', `The assertion does not contain the claim "${customIdField}".`, callback);
+
+        // Assertions must not be replayed; remember the jti until the assertion expires
+        const redis = redisConnection.getRedis();
+        redis.set(`jwt_assertion_jti:${payload.iss}:${payload.jti}`, '1', 'EX', Math.max(ttlSeconds, 1), 'NX', function (err, result) {
+            if (err)
+                return failOAuth(500, 'server_error', 'could not check the assertion', err, callback);
+            if (!result)
+                return failOAuth(400, 'invalid_grant', 'The assertion has already been used.', callback);
+
+            const customId = `${authMethodId}:${payload[customIdField]}`;
+            const defaultProfile: OidcProfile = {
+                sub: customId,
+                email: payload.email,
+                email_verified: !!payload.email_verified
+            };
+            if (payload.name)
+                defaultProfile.name = payload.name;
+            if (payload.given_name)
+                defaultProfile.given_name = payload.given_name;
+            if (payload.family_name)
+                defaultProfile.family_name = payload.family_name;
+
+            return callback(null, {
+                customId: customId,
+                defaultProfile: defaultProfile,
+                defaultGroups: []
+            });
+        });
+    };
+
+    // Resource servers authenticate either with their client credentials, or with the
+    // introspection secret of the auth method (if configured).
+    public introspectToken = (authMethodId: string, introspectionRequest: TokenIntrospectionRequest, callback: TokenIntrospectionCallback) => {
+        debug(`introspectToken(${authMethodId}, ${introspectionRequest.token_type_hint})`);
+        if (!introspectionRequest.token)
+            return failOAuth(400, 'invalid_request', 'token is missing.', callback);
+        const instance = this;
+        const authenticate = (callback: SimpleCallback) => {
+            if (introspectionRequest.introspection_secret) {
+                const authMethod = utils.getAuthMethod(authMethodId);
+                if (!authMethod || !authMethod.introspectionSecret || !utils.safeEquals(authMethod.introspectionSecret, introspectionRequest.introspection_secret))
+                    return failOAuth(401, 'invalid_client', 'invalid introspection secret', callback);
+                return callback(null);
+            }
+            if (!introspectionRequest.client_secret)
+                return failOAuth(401, 'invalid_client', 'client_secret is missing.', callback);
+            return instance.authenticateClient(introspectionRequest, callback);
+        };
+        authenticate(function (err) {
+            if (err)
+                return callback(err);
+            const apiId = introspectionRequest.api_id;
+            // Also for tokens which were issued for a different API than the one of the end point
+            const inactive: TokenIntrospection = { active: false };
+            // JWT access tokens carry everything; revoked ones are on the deny-list
+            if (jwtAccessTokens.isJwtAccessToken(introspectionRequest.token)) {
+                return jwtAccessTokens.verify(introspectionRequest.token, function (err, payload) {
+                    if (err)
+                        return failOAuth(500, 'server_error', 'could not verify the token', err, callback);
+                    if (!payload || payload.aud !== apiId)
+                        return callback(null, inactive);
+                    const introspection: TokenIntrospection = {
+                        active: true,
+                        scope: payload.scope,
+                        client_id: payload.client_id,
+                        sub: payload.sub,
+                        aud: payload.aud,
+                        exp: payload.exp,
+                        iat: payload.iat,
+                        token_type: payload.cnf && payload.cnf.jkt ? 'DPoP' : 'bearer'
+                    };
+                    if (payload.cnf)
+                        introspection.cnf = payload.cnf;
+                    return callback(null, introspection);
+                });
+            }
+            instance.getTokenData(introspectionRequest.token, introspectionRequest.token_type_hint, function (err, tokenInfo) {
+                if (err) {
+                    if (err.status === 404)
+                        return callback(null, inactive);
+                    return callback(err);
+                }
+                const isAccessToken = tokenInfo.access_token === introspectionRequest.token;
+                const introspection: TokenIntrospection = {
+                    active: true,
+                    scope: tokenInfo.scope
+                };
+                if (tokenInfo.created_at)
+                    introspection.iat = Math.floor(tokenInfo.created_at / 1000);
+                // Refresh tokens are valid until they are used or revoked
+                if (isAccessToken) {
+                    introspection.token_type = tokenInfo.token_type || 'bearer';
+                    if (tokenInfo.expires_in && introspection.iat) {
+                        introspection.exp = introspection.iat + tokenInfo.expires_in;
+                        if (introspection.exp <= utils.getUtc())
+                            return callback(null, inactive);
+                    }
+                }
+                async.parallel({
+                    clientId: callback => tokens.getClientIdByCredentialId(tokenInfo.credential_id, callback),
+                    profile: callback => profileStore.retrieve(tokenInfo.access_token, callback)
+                }, function (err, results) {
+                    if (err)
+                        return failOAuth(500, 'server_error', 'could not retrieve the token information', err, callback);
+                    instance.isTokenOfApi(apiId, results.clientId, results.profile, function (err, isTokenOfApi) {
+                        if (err)
+                            return failOAuth(500, 'server_error', 'could not retrieve the token information', err, callback);
+                        if (!isTokenOfApi)
+                            return callback(null, inactive);
+                        introspection.client_id = results.clientId;
+                        introspection.aud = apiId;
+                        if (results.profile && results.profile.sub)
+                            introspection.sub = results.profile.sub;
+                        else if (tokenInfo.authenticated_userid)
+                            introspection.sub = tokenInfo.authenticated_userid;
+                        if (results.profile && results.profile.cnf) {
+                            introspection.cnf = results.profile.cnf;
+                            // The resource server has to check the DPoP proof against "cnf.jkt" (RFC 9449, section 6.2)
+                            if (isAccessToken && introspection.cnf.jkt)
+                                introspection.token_type = 'DPoP';
+                        }
+                        return callback(null, introspection);
+                    });
+                });
+            });
+        });
+    };
+
+    // Profiles are stored with the API; tokens without a profile (client credentials) are
+    // checked via the client, as client IDs are specific to the subscription to an API.
+    private isTokenOfApi(apiId: string, clientId: string, profile: OidcProfile, callback: BooleanCallback): void {
+        if (profile && profile.api_id)
+            return callback(null, profile.api_id === apiId);
+        wicked.getSubscriptionByClientId(clientId, apiId, function (err, subsInfo: WickedSubscriptionInfo) {
+            if (err && err.status === 404)
+                return callback(null, false);
+            if (err)
+                return callback(err);
+            return callback(null, !!subsInfo.subscription);
+        });
+    }
+
+    // JWT access tokens (RFC 9068) are resolved to the Kong token they were issued for; null
+    // if the JWT is invalid. Other tokens are returned as they are.
+    private resolveAccessToken(token: string, callback: StringCallback): void {
+        if (!jwtAccessTokens.isJwtAccessToken(token))
+            return callback(null, token);
+        jwtAccessTokens.getKongToken(token, callback);
+    }
+
+    // Looks up an access or refresh token in Kong; the hint only tells us
+    // where to look first, unknown hints are ignored.
+    private getTokenData(token: string, tokenTypeHint: string, callback: TokenInfoCallback): void {
+        debug(`getTokenData(${tokenTypeHint})`);
+        const lookups = tokenTypeHint === 'refresh_token' ?
+            [tokens.getTokenDataByRefreshToken, tokens.getTokenDataByAccessToken] :
+            [tokens.getTokenDataByAccessToken, tokens.getTokenDataByRefreshToken];
+        async.tryEach(lookups.map(lookup => (callback) => lookup(token, callback)), callback);
+    }
+
+    /**
+     * The names of the claims requested with the "claims" parameter for the given member
+     * ("userinfo" or "id_token"); with essentialOnly, only the essential ones.
+     */
+    public getRequestedClaims(claimsRequest: ClaimsRequest, member: string, essentialOnly?: boolean): string[] {
+        if (!claimsRequest || !claimsRequest[member])
+            return [];
+        const requested = claimsRequest[member];
+        return Object.keys(requested).filter(c => !essentialOnly || (requested[c] && requested[c].essential === true));
+    }
+
+    // Essential claims of both the id_token and the UserInfo response which the profile does not contain
+    public getMissingEssentialClaims(claimsRequest: ClaimsRequest, profile: OidcProfile): string[] {
+        const essentialClaims = this.getRequestedClaims(claimsRequest, 'id_token', true)
+            .concat(this.getRequestedClaims(claimsRequest, 'userinfo', true));
+        return essentialClaims.filter((c, i) => essentialClaims.indexOf(c) === i &&
+            (profile[c] === undefined || profile[c] === null || profile[c] === ''));
+    }
+
+    // The prompt parameter is a space separated list
+    public hasPrompt(authRequest: AuthRequest, value: string): boolean {
+        if (!authRequest.prompt)
+            return false;
+        return !!authRequest.prompt.split(' ').find(p => p === value);
+    }
+
+    // The claims parameter is a JSON string if passed in the query, and an object in a
+    // request object; returns an error message, or null.
+    private parseClaimsRequest(authRequest: AuthRequest): string {
+        let claims: any = authRequest.claims;
+        if (typeof (claims) === 'string') {
+            try {
+                claims = JSON.parse(claims);
+            } catch (err) {
+                return 'The claims parameter is not valid JSON.';
+            }
+        }
+        if (!claims || typeof (claims) !== 'object' || Array.isArray(claims))
+            return 'The claims parameter must be a JSON object.';
+        for (let member of ['userinfo', 'id_token']) {
+            const requested = claims[member];
+            if (requested === undefined)
+                continue;
+            if (!requested || typeof (requested) !== 'object' || Array.isArray(requested))
+                return `The "${member}" member of the claims parameter must be a JSON object.`;
+            for (let claim in requested) {
+                if (requested[claim] !== null && typeof (requested[claim]) !== 'object')
+                    return `The request for claim "${claim}" must be null or a JSON object.`;
+            }
+        }
+        authRequest.claims = claims;
+        return null;
+    }
+
+    public verifyCodeChallenge(codeChallenge: string, codeChallengeMethod: string, codeVerifier: string): boolean {
+        debug(`verifyCodeChallenge(${codeChallengeMethod})`);
+        switch (codeChallengeMethod) {
+            case 'S256':
+                const sha256 = crypto.createHash('sha256');
+                sha256.update(codeVerifier, 'ascii');
+                return utils.base64UrlEncode(sha256.digest()) === codeChallenge;
+            case 'plain':
+                return codeVerifier === codeChallenge;
+        }
+        return false;
+    }
+
+    public getIssuer(authMethodId: string, apiId: string): string {
+        return `${utils.getExternalUrl()}/${authMethodId}/api/${apiId}`;
+    }
+
+    public hasOpenIdScope(scope: any): boolean {
+        if (!scope)
+            return false;
+        const scopeList = Array.isArray(scope) ? scope : String(scope).split(' ');
+        return !!scopeList.find(s => s === 'openid');
+    }
+
+    public createIdToken = (authMethodId: string, apiId: string, clientId: string, profile: OidcProfile, idTokenOptions: IdTokenOptions, callback: StringCallback) => {
+        debug(`createIdToken(${authMethodId}, ${apiId}, ${clientId})`);
+        const instance = this;
+        // Like the UserInfo end point, the ID token only contains the claims the scope allows,
+        // and the claims which were requested for it
+        this.getScopeClaims(apiId, idTokenOptions.scope, function (err, claims) {
+            if (err)
+                return failError(500, err, callback);
+            if (idTokenOptions.claims)
+                claims.push(...idTokenOptions.claims);
+            const payload: IdTokenClaims = {
+                iss: instance.getIssuer(authMethodId, apiId),
+                sub: profile.sub,
+                aud: clientId,
+                exp: utils.getUtc() + ID_TOKEN_EXPIRES_SECONDS
+            };
+            for (let claim of claims) {
+                if (profile.hasOwnProperty(claim))
+                    payload[claim] = profile[claim];
+            }
+            if (idTokenOptions.nonce)
+                payload.nonce = idTokenOptions.nonce;
+            if (idTokenOptions.auth_time)
+                payload.auth_time = idTokenOptions.auth_time;
+            if (idTokenOptions.access_token)
+                payload.at_hash = instance.halfHash(idTokenOptions.access_token);
+            if (idTokenOptions.code)
+                payload.c_hash = instance.halfHash(idTokenOptions.code);
+            return signingKeys.sign(payload, callback);
+        });
+    }
+
+    // OpenID Connect Core, 3.1.3.6 and 3.3.2.11: at_hash and c_hash are the base64url
+    // encoded left half of the hash (SHA-256 for both RS256 and ES256).
+    private halfHash(value: string): string {
+        const sha256 = crypto.createHash('sha256');
+        sha256.update(value, 'ascii');
+        const digest = sha256.digest();
+        return utils.base64UrlEncode(digest.slice(0, digest.length / 2));
+    }
+
+    /**
+     * The UserInfo end point (OpenID Connect Core, 5.3), GET and POST. Returns the claims of
+     * the profile which the scope of the access token allows; errors are returned as
+     * specified in RFC 6750, section 3. DPoP-bound access tokens have to be presented
+     * with a matching proof (RFC 9449, section 7).
+     */
+    public getProfile = (req, res, next) => {
         debug(`/profile`);
-        // OIDC profile end point, we need this. This is nice. Yeah.
-        // res.status(500).json({ message: 'Not yet implemented.' });
-
-        const bearerToken = req.get('authorization');
-        if (!bearerToken)
-            return failMessage(403, 'Unauthorized', next);
-        let accessToken = null;
-        if (bearerToken.indexOf(' ') > 0) {
-            // assume Bearer xxx
-            let tokenSplit = bearerToken.split(' ');
-            if (tokenSplit.length !== 2)
-                return failOAuth(400, 'invalid_request', 'Invalid Bearer token.', next);
-            accessToken = bearerToken.split(' ')[1];
-        } else {
-            // Assume without "Bearer", just the access token
-            accessToken = bearerToken;
+        const instance = this;
+        const bearerError = (status: number, errorCode: string, errorDescription: string) => {
+            res.set('WWW-Authenticate', `Bearer error="${errorCode}", error_description=${quoteHeaderValue(errorDescription)}`);
+            return failOAuth(status, errorCode, errorDescription, next);
+        };
+
+        const authorization = req.get('authorization');
+        const bodyToken = req.method === 'POST' && req.body ? req.body.access_token : null;
+        if (authorization && bodyToken)
+            return bearerError(400, 'invalid_request', 'The access token must only be passed in one way.');
+        let accessToken = bodyToken;
+        let isDpop = false;
+        if (authorization) {
+            const tokenSplit = authorization.trim().split(/\s+/);
+            const scheme = tokenSplit[0].toLowerCase();
+            if (tokenSplit.length !== 2 || (scheme !== 'bearer' && scheme !== 'dpop'))
+                return bearerError(400, 'invalid_request', 'Invalid Bearer authorization header.');
+            accessToken = tokenSplit[1];
+            isDpop = scheme === 'dpop';
+        }
+        if (!accessToken) {
+            // No error code if the client did not try to authenticate (RFC 6750, section 3.1)
+            res.set('WWW-Authenticate', 'Bearer');
+            return res.status(401).end();
         }
-        accessToken = accessToken.trim();
 
-        // Read from profile store.
-        profileStore.retrieve(accessToken, (err, profile) => {
-            if (err || !profile)
-                return failOAuth(404, 'invalid_request', 'Not found', next);
-            return res.status(200).json(profile);
+        // JWT access tokens stand for a Kong token
+        this.resolveAccessToken(accessToken, function (err, kongToken) {
+            if (err)
+                return failOAuth(500, 'server_error', 'could not verify the access token', err, next);
+            if (!kongToken)
+                return bearerError(401, 'invalid_token', 'The access token is invalid or has expired.');
+            // The token has to be valid in Kong as well; this also gives us the scope
+            tokens.getTokenDataByAccessToken(kongToken, function (err, tokenInfo) {
+                if (err && err.status !== 404)
+                    return failOAuth(500, 'server_error', 'could not retrieve the token information', err, next);
+                if (err || (tokenInfo.expires_in && tokenInfo.created_at &&
+                    Math.floor(tokenInfo.created_at / 1000) + tokenInfo.expires_in <= utils.getUtc())) {
+                    return bearerError(401, 'invalid_token', 'The access token is invalid or has expired.');
+                }
+                profileStore.retrieve(kongToken, (err, profile) => {
+                    if (err)
+                        return failOAuth(500, 'server_error', 'could not retrieve the profile', err, next);
+                    if (!profile || !profile.sub)
+                        return bearerError(401, 'invalid_token', 'The access token was not issued for a user.');
+                    instance.checkDpopProof(req, res, isDpop, accessToken, profile, function (err) {
+                        if (err)
+                            return next(err);
+                        instance.getScopeClaims(profile.api_id, tokenInfo.scope, function (err, claims) {
+                            if (err)
+                                return failOAuth(500, 'server_error', 'could not retrieve the API scopes', err, next);
+                            // Plus the claims which were requested with the claims parameter
+                            if (profile.userinfo_claims)
+                                claims.push(...profile.userinfo_claims);
+                            const userInfo = { sub: profile.sub } as OidcProfile;
+                            for (let claim of claims) {
+                                if (profile.hasOwnProperty(claim))
+                                    userInfo[claim] = profile[claim];
+                            }
+                            return res.status(200).json(userInfo);
+                        });
+                    });
+                });
+            });
+        });
+    };
+
+    // DPoP-bound tokens need the DPoP scheme and a proof with the bound key; the proof
+    // has to contain the hash of the token as presented (RFC 9449, section 7.1).
+    private checkDpopProof(req, res, isDpop: boolean, accessToken: string, profile: OidcProfile, callback: SimpleCallback): void {
+        const boundThumbprint = profile.cnf ? profile.cnf.jkt : null;
+        if (!isDpop && !boundThumbprint)
+            return callback(null);
+        const dpopError = (errorCode: string, errorDescription: string) => {
+            res.set('WWW-Authenticate', `DPoP algs="${DPOP_ALGORITHMS.join(' ')}", error="${errorCode}", error_description=${quoteHeaderValue(errorDescription)}`);
+            return failOAuth(401, errorCode, errorDescription, callback);
+        };
+        if (!isDpop || !boundThumbprint)
+            return dpopError('invalid_token', 'The access token must be presented with the DPoP scheme if, and only if, it is DPoP-bound.');
+        dpop.verifyProof(req, `${utils.getExternalUrl()}/profile`, accessToken, function (err, thumbprint) {
+            if (err && err.status === 500)
+                return callback(err);
+            if (err)
+                return dpopError('invalid_dpop_proof', err.message);
+            if (thumbprint !== boundThumbprint)
+                return dpopError('invalid_dpop_proof', 'The DPoP proof key does not match the key the access token is bound to.');
+            return callback(null);
+        });
+    }
+
+    // The claims which the given scope allows, including the mappings of the API's scopes
+    private getScopeClaims(apiId: string, scope: any, callback: StringArrayCallback): void {
+        const scopeList = !scope ? [] : (Array.isArray(scope) ? scope : String(scope).split(' '));
+        const claims = [];
+        for (let s of scopeList) {
+            if (SCOPE_CLAIMS[s])
+                claims.push(...SCOPE_CLAIMS[s]);
+        }
+        // Profiles stored before the API was recorded with them only get the standard claims
+        if (!apiId)
+            return callback(null, claims);
+        utils.getApiInfo(apiId, function (err, apiInfo) {
+            if (err)
+                return callback(err);
+            const apiScopes = (apiInfo.settings && apiInfo.settings.scopes) || {};
+            for (let s of scopeList) {
+                if (apiScopes[s] && apiScopes[s].claims)
+                    claims.push(...apiScopes[s].claims);
+            }
+            return callback(null, claims);
         });
     }
 
@@ -312,17 +1399,7 @@ export class UtilsOAuth2 {
             const poolInfo = results.poolInfo;
 
             const profile = instance.wickedUserInfoToOidcProfile(userInfo);
-            // Now let's see what we can map from the registration
-            for (let propName in poolInfo.properties) {
-                if (!regInfo[propName])
-                    continue;
-                const propInfo = poolInfo.properties[propName];
-                // If the property doesn't include a mapping to an OIDC claim, we can't use it
-                if (!propInfo.oidcClaim)
-                    continue;
-                // Now assign the value to the OIDC claim in the profile
-                profile[propInfo.oidcClaim] = regInfo[propName];
-            }
+            instance.mapRegistrationClaims(profile, poolInfo, regInfo);
 
             debug('makeOidcProfile() assembled the following profile:');
             debug(profile);
@@ -330,6 +1407,65 @@ export class UtilsOAuth2 {
             return callback(null, profile);
         });
     }
+
+    /**
+     * Rebuilds the profile of a user without the interactive flow, e.g. when refreshing
+     * a token: The same claims as makeOidcProfile, if the API has a registration pool.
+     */
+    public makeOidcProfileForApi = (apiId: string, userInfo: WickedUserInfo, callback: OidcProfileCallback) => {
+        debug(`makeOidcProfileForApi(${apiId}, ${userInfo.id})`);
+        const instance = this;
+        const profile = this.wickedUserInfoToOidcProfile(userInfo);
+        utils.getApiRegistrationPool(apiId, function (err, poolId) {
+            if (err)
+                return callback(err);
+            if (!poolId)
+                return callback(null, profile);
+            async.parallel({
+                regInfo: callback => wicked.apiGet(`/registrations/pools/${poolId}/users/${userInfo.id}`, function (err, regInfo) {
+                    // The registration may have been deleted in the meantime
+                    if (err && err.statusCode !== 404)
+                        return callback(err);
+                    return callback(null, regInfo);
+                }),
+                poolInfo: callback => utils.getPoolInfo(poolId, callback)
+            }, function (err, results) {
+                if (err)
+                    return callback(err);
+                if (results.regInfo)
+                    instance.mapRegistrationClaims(profile, results.poolInfo, results.regInfo);
+
+                debug('makeOidcProfileForApi() assembled the following profile:');
+                debug(profile);
+
+                return callback(null, profile);
+            });
+        });
+    }
+
+    private mapRegistrationClaims(profile: OidcProfile, poolInfo: WickedPool, regInfo): void {
+        // Now let's see what we can map from the registration
+        for (let propName in poolInfo.properties) {
+            if (!regInfo[propName])
+                continue;
+            const propInfo = poolInfo.properties[propName];
+            // If the property doesn't include a mapping to an OIDC claim, we can't use it
+            if (!propInfo.oidcClaim)
+                continue;
+            // Now assign the value to the OIDC claim in the profile
+            profile[propInfo.oidcClaim] = regInfo[propName];
+        }
+    }
 };
 
 export const utilsOAuth2 = new UtilsOAuth2();
+
+// Applications without registered grant types may use all grant types of the API
+function isGrantTypeRegistered(application: WickedApplication, grantType: string): boolean {
+    return !application.grantTypes || !!application.grantTypes.find(g => g === grantType);
+}
+
+// RFC 7230, section 3.2.6: quoted-string for header parameters; control characters are dropped
+function quoteHeaderValue(value: string): string {
+    return '"' + String(value).replace(/[\x00-\x1f\x7f]/g, '').replace(/["\\]/g, '\\$&') + '"';
+}
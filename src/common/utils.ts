@@ -12,7 +12,7 @@ const qs = require('querystring');
 
 import { failMessage, failError, failOAuth, makeError } from './utils-fail';
 import { NameSpec, StringCallback, SimpleCallback, AuthRequest, AuthResponse, AuthSession, OidcProfile } from './types';
-import { WickedApi, WickedPool, WickedPoolCallback, WickedApiCallback } from './wicked-types';
+import { WickedApi, WickedPool, WickedPoolCallback, WickedApiCallback, WickedAuthMethod } from './wicked-types';
 
 const ERROR_TIMEOUT = 500; // ms
 
@@ -33,6 +33,25 @@ export const utils = {
         return crypto.randomBytes(20).toString('hex');
     },
 
+    // base64url encoding without padding, as per RFC 4648, section 5
+    base64UrlEncode: function (data: Buffer): string {
+        return data.toString('base64')
+            .replace(/=+$/, '')
+            .replace(/\+/g, '-')
+            .replace(/\//g, '_');
+    },
+
+    // Compares secrets in constant time, so that they can't be guessed byte by byte
+    safeEquals: function (a: string, b: string): boolean {
+        if (typeof a !== 'string' || typeof b !== 'string' || !a || !b)
+            return false;
+        const bufferA = Buffer.from(a);
+        const bufferB = Buffer.from(b);
+        if (bufferA.length !== bufferB.length)
+            return false;
+        return crypto.timingSafeEqual(bufferA, bufferB);
+    },
+
     clone: function (o): object {
         // Ahem.
         return JSON.parse(JSON.stringify(o));
@@ -101,6 +120,11 @@ export const utils = {
         }).pipe(res);
     },
 
+    getAuthMethod: function (authMethodId: string): WickedAuthMethod {
+        debug(`getAuthMethod(${authMethodId})`);
+        return utils.app.authConfig.authMethods.find(m => m.name === authMethodId);
+    },
+
     getExternalUrl: function (): string {
         debug(`getExternalUrl()`);
         return utils.app.get('external_url');
@@ -317,7 +341,9 @@ export const utils = {
             verifyPostUrl: `${authMethodId}/verify`,
             emailMissingUrl: `${authMethodId}/emailmissing`,
             grantUrl: `${authMethodId}/grant`,
+            selectAccountUrl: `${authMethodId}/selectaccount`,
             manageGrantsUrl: `${authMethodId}/grants`,
+            deviceUrl: `${authMethodId}/device`,
             recaptcha: req.app.glob.recaptcha
         };
     },
@@ -37,6 +37,25 @@ export interface WickedApiSettings {
     enable_implicit_grant?: boolean,
     enable_authorization_code?: boolean,
     enable_password_grant?: boolean,
+    // Device authorization grant (RFC 8628); tokens are issued via a Kong authorization
+    // code, so the Kong plugin needs enable_authorization_code as well.
+    enable_device_grant?: boolean,
+    // JWT bearer assertion grant (RFC 7523), also via a Kong authorization code
+    enable_jwt_bearer_grant?: boolean,
+    // Token exchange (RFC 8693) with this API as the target, also via a Kong authorization code
+    enable_token_exchange?: boolean,
+    // Only accept authorization requests which were pushed to the par end point (RFC 9126)
+    require_pushed_authorization_requests?: boolean,
+    // Every refresh returns a new refresh token; reusing a refresh token revokes all
+    // tokens which were issued from the same grant.
+    rotate_refresh_tokens?: boolean,
+    // "public" (default) or "pairwise": Clients get a sub per sector instead of the wicked user id
+    subject_type?: string,
+    // "opaque" (default, Kong tokens), "jwt" (signed JWT access tokens, RFC 9068, instead of the
+    // Kong tokens; these are not accepted by Kong) or "both" (the JWT as "jwt_access_token")
+    access_token_format?: string,
+    // Profile claims which are added to JWT access tokens
+    jwt_access_token_claims?: string[],
     token_expiration?: string,
     scopes: WickedApiScopes,
     tags: string[],
@@ -47,7 +66,10 @@ export interface WickedApiSettings {
 
 export interface WickedApiScopes {
     [scope: string]: {
-        description: string
+        description: string,
+        // Profile claims the UserInfo end point returns for this scope, in addition to
+        // the standard claims of "profile", "email", "phone" and "address"
+        claims?: string[]
     }
 }
 
@@ -73,7 +95,56 @@ export interface WickedAuthMethod {
     type: string,
     friendlyShort: string,
     friendlyLong: string,
-    config: any
+    config: any,
+    // Resource servers may authenticate at the introspection end point
+    // with this secret (as a Bearer token) instead of client credentials.
+    introspectionSecret?: string,
+    // Issuers of assertions accepted by the JWT bearer grant (RFC 7523)
+    trustedIssuers?: WickedTrustedIssuer[],
+    // Revoke all tokens of the user when the user logs out via the end_session_endpoint
+    revokeTokensOnLogout?: boolean,
+    // Enables dynamic client registration (RFC 7591/7592) if present
+    clientRegistration?: WickedClientRegistration
+}
+
+export interface WickedClientRegistration {
+    // Clients must pass this as a Bearer token to register
+    initialAccessToken: string,
+    // The user which owns all registered applications
+    ownerUserId: string,
+    // The plan registered applications subscribe to; should not require approval
+    plan: string
+}
+
+export interface WickedTrustedIssuer {
+    // Must match the "iss" claim of the assertion
+    issuer: string,
+    // Several keys may be given to allow key rotation; if the assertion has a
+    // "kid" header, only the key with that kid is used.
+    keys: WickedPublicKey[],
+    // Defaults to ["RS256"]
+    algorithms?: string[],
+    // The claim which identifies the user, defaults to "sub"; the wicked user is
+    // looked up by the custom ID "<auth method>:<claim value>", like for federated logins.
+    customIdField?: string
+}
+
+export interface WickedPublicKey {
+    kid?: string,
+    // PEM encoded public key
+    publicKey: string
+}
+
+export interface WickedSigningKey {
+    // Key ID, is passed in the "kid" header of signed tokens
+    kid: string,
+    // RS256 or ES256
+    alg: string,
+    // PEM encoded public key (SubjectPublicKeyInfo), published via the JWKS end point
+    publicKey: string,
+    // PEM encoded private key; keys without a private key are only published,
+    // e.g. retired keys during a key rotation.
+    privateKey?: string
 }
 
 export interface WickedAuthServer {
@@ -83,7 +154,23 @@ export interface WickedAuthServer {
     config: {
         api: KongApi,
         plugins: KongPlugin[]
-    }
+    },
+    // Keys for signing ID tokens; the first key with a private key is used for
+    // signing, all keys are published via the JWKS end point.
+    signingKeys?: WickedSigningKey[],
+    // The header in which the TLS terminating proxy forwards the (URL encoded PEM) client
+    // certificate; the auth server itself does not terminate TLS. Mutual TLS client
+    // authentication and certificate bound tokens require this header. For
+    // tls_client_auth, the proxy must verify the certificate chain and forward the
+    // subject DN as well. The proxy must always overwrite (or remove) these headers,
+    // and prove itself by sending the shared secret in clientCertificateSecretHeader;
+    // without the secret, forwarded certificates are ignored.
+    clientCertificateHeader?: string,
+    clientCertificateSubjectHeader?: string,
+    clientCertificateSecretHeader?: string,
+    clientCertificateSecret?: string,
+    // Secret salt for pairwise subject identifiers; must not change once pairwise subjects were issued
+    pairwiseSubjectSalt?: string
 }
 
 export enum WickedOwnerRole {
@@ -102,8 +189,31 @@ export interface WickedApplication {
     id: string,
     name: string,
     redirectUri: string,
+    // Optional, all allowed redirect URIs; redirectUri is then the first of them
+    redirectUris?: string[],
     confidential: boolean,
-    ownerList: WickedOwner[]   
+    ownerList: WickedOwner[],
+    // Keys of the client, for verifying signed authorization requests (RFC 9101) and
+    // client assertions (private_key_jwt); if a JWT has a "kid" header, only the key
+    // with that kid is used.
+    publicKeys?: WickedPublicKey[],
+    // The request_uris (RFC 9101) the authorization server may fetch request objects from
+    requestUris?: string[],
+    // Mutual TLS client authentication (RFC 8705): the subject DN of the client certificate
+    // for tls_client_auth, or the PEM encoded certificates for self_signed_tls_client_auth
+    tlsClientAuthSubjectDn?: string,
+    tlsClientCertificates?: string[],
+    // OpenID Connect Back-Channel Logout: receives a logout token when the user's session ends
+    backchannelLogoutUri?: string,
+    // "public" or "pairwise" (OpenID Connect Core, 8), overrides the subject_type of the API
+    subjectType?: string,
+    // Pairwise subjects: the sector identifier is the host of this URI instead of the redirect URI's.
+    // It returns a JSON array with all redirect URIs; required if they are on several hosts.
+    sectorIdentifierUri?: string,
+    // Dynamic client registration (RFC 7591): the registered grant types and client
+    // authentication method; if present, the client is restricted to these.
+    grantTypes?: string[],
+    tokenEndpointAuthMethod?: string
 }
 
 export enum WickedAuthType {
@@ -1,12 +1,13 @@
 'use strict';
 
 import * as qs from 'querystring';
-import { SimpleCallback, StringCallback, AuthRequest, TokenRequest, OAuth2Request, AccessToken, AccessTokenCallback } from '../common/types';
+import { SimpleCallback, StringCallback, NumberCallback, AuthRequest, TokenRequest, OAuth2Request, AccessToken, AccessTokenCallback } from '../common/types';
 import { WickedApplication, WickedSubscription, KongApi, KongApiCallback, WickedApi, WickedApiCallback } from '../common/wicked-types';
 const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:oauth2');
 const async = require('async');
 const wicked = require('wicked-sdk');
 const request = require('request');
+const { URL } = require('url');
 
 import { utils } from '../common/utils';
 import { kongUtils }  from './kong-utils';
@@ -17,6 +18,12 @@ var https = require('https');
 var agentOptions = { rejectUnauthorized: false };
 var sslAgent = new https.Agent(agentOptions);
 
+// Grants which Kong does not know about; these are verified by the auth
+// server, and the tokens are then created using the provision key.
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+const JWT_BEARER_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:jwt-bearer';
+const TOKEN_EXCHANGE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:token-exchange';
+
 // interface InputData {
 //     grant_type?: string,
 //     response_type?: string,
@@ -59,9 +66,14 @@ interface KongOAuth2Config {
     enable_client_credentials: boolean,
     enable_implicit_grant: boolean,
     enable_authorization_code: boolean,
-    enable_password_grant: boolean
+    enable_password_grant: boolean,
+    // In seconds; 0 means refresh tokens never expire
+    refresh_token_ttl?: number
 }
 
+// Used if the plugin configuration does not contain a refresh_token_ttl
+const KONG_DEFAULT_REFRESH_TOKEN_TTL = 14 * 24 * 60 * 60;
+
 interface OAuthInfo {
     inputData: OAuth2Request,
     oauth2Config: KongOAuth2Config,
@@ -167,9 +179,26 @@ export const oauth2 = {
                     return tokenRefreshToken(inputData, callback);
                 case 'password':
                     return tokenPasswordGrant(inputData, callback);
+                case DEVICE_CODE_GRANT_TYPE:
+                case JWT_BEARER_GRANT_TYPE:
+                case TOKEN_EXCHANGE_GRANT_TYPE:
+                    return tokenAuthServerGrant(inputData, callback);
             }
             return failOAuth(400, 'invalid_request', 'unknown error or grant_type invalid', callback);
         });
+    },
+
+    // The refresh_token_ttl of the API's oauth2 plugin, in seconds; 0 means that
+    // refresh tokens never expire.
+    getRefreshTokenTtl: function (apiId: string, callback: NumberCallback) {
+        getOAuth2Config({ inputData: { api_id: apiId } } as OAuthInfo, function (err, oauthInfo) {
+            if (err)
+                return callback(err);
+            const ttlSeconds = oauthInfo.oauth2Config.refresh_token_ttl;
+            if (ttlSeconds === undefined || ttlSeconds === null)
+                return callback(null, KONG_DEFAULT_REFRESH_TOKEN_TTL);
+            return callback(null, Number(ttlSeconds));
+        });
     }
 };
 
@@ -206,6 +235,9 @@ function validateGrantType(inputData: TokenRequest, callback: SimpleCallback) {
         case 'client_credentials':
         case 'refresh_token':
         case 'password':
+        case DEVICE_CODE_GRANT_TYPE:
+        case JWT_BEARER_GRANT_TYPE:
+        case TOKEN_EXCHANGE_GRANT_TYPE:
             return callback(null);
     }
     return failOAuth(400, 'invalid_request', `invalid grant_type ${inputData.grant_type}`, callback);
@@ -364,7 +396,8 @@ function validateTokenAuthorizationCode(inputData: TokenRequest, callback: Simpl
     debug('validateTokenAuthorizationCode()');
     if (!inputData.client_id)
         return failOAuth(400, 'invalid_request', 'client_id is missing', callback);
-    if (!inputData.client_secret)
+    // With PKCE, the code_verifier replaces the client_secret for public clients
+    if (!inputData.client_secret && !inputData.code_verifier)
         return failOAuth(400, 'invalid_request', 'client_secret is missing', callback);
     if (!inputData.code)
         return failOAuth(400, 'invalid_request', 'code is missing', callback);
@@ -496,6 +529,66 @@ function tokenPasswordGrantKong(oauthInfo: TokenOAuthInfo, callback: TokenOAuthI
     return tokenWithKong(oauthInfo, 'password', callback);
 }
 
+// -----------------------------------
+// DEVICE CODE, JWT BEARER AND TOKEN EXCHANGE GRANTS
+// -----------------------------------
+
+// Kong does not know about these grants; the device code, the assertion or the
+// subject token has already been checked by the auth server (see utilsOAuth2). The token
+// is created like in the authorization code grant: the auth server has Kong issue a code
+// for the user with the provision key, and redeems it right away. This way, the resource
+// owner password grant does not have to be enabled for the API.
+function tokenAuthServerGrant(inputData: TokenRequest, callback: AccessTokenCallback) {
+    debug(`tokenAuthServerGrant(${inputData.grant_type})`);
+    async.series({
+        validate: function (callback) { validatePasswordGrant(inputData, callback); },
+        accessToken: function (callback) { tokenFlow(inputData, tokenAuthServerGrantKong, callback); }
+    }, function (err, result) {
+        if (err)
+            return callback(err);
+        const returnValue = result.accessToken;
+        // If session_data was provided, also return it
+        if (inputData.session_data)
+            returnValue.session_data = inputData.session_data;
+        return callback(null, returnValue);
+    });
+}
+
+function tokenAuthServerGrantKong(oauthInfo: TokenOAuthInfo, callback: TokenOAuthInfoCallback) {
+    debug(oauthInfo.oauth2Config);
+    if (!oauthInfo.oauth2Config ||
+        !oauthInfo.oauth2Config.enable_authorization_code)
+        return failOAuth(403, 'unauthorized_client', 'The API ' + oauthInfo.inputData.api_id + ' is not configured for the OAuth2 authorization code grant, which is needed for the grant ' + oauthInfo.inputData.grant_type + '.', callback);
+
+    const inputData = oauthInfo.inputData;
+    const authorizeInfo = Object.assign({}, oauthInfo, {
+        inputData: {
+            api_id: inputData.api_id,
+            auth_method: inputData.auth_method,
+            client_id: inputData.client_id,
+            authenticated_userid: inputData.authenticated_userid,
+            scope: inputData.scope,
+            response_type: 'code'
+        }
+    }) as AuthorizeOAuthInfo;
+    authorizeWithKong(authorizeInfo, 'code', function (err) {
+        if (err)
+            return callback(err);
+        const code = new URL(authorizeInfo.redirectUri).searchParams.get('code');
+        if (!code)
+            return failOAuth(500, 'server_error', 'Kong did not return an authorization code.', callback);
+        const codeInfo = Object.assign({}, oauthInfo, {
+            inputData: Object.assign({}, inputData, { code: code })
+        }) as TokenOAuthInfo;
+        tokenWithKong(codeInfo, 'authorization_code', function (err) {
+            if (err)
+                return callback(err);
+            oauthInfo.accessToken = codeInfo.accessToken;
+            return callback(null, oauthInfo);
+        });
+    });
+}
+
 // -----------------------------------
 // REFRESH TOKEN
 // -----------------------------------
@@ -732,10 +825,35 @@ function validateTokenClientCredentials(oauthInfo: TokenOAuthInfo, callback: Tok
             }
 
             break;
-        // These two grants *require* a confidential client, i.e. one which is able
+        // The authorization code grant can be used by non-confidential clients
+        // (apps or SPAs) only if they use PKCE; the code_verifier has already been
+        // checked against the code_challenge at this point (see utilsOAuth2).
+        case 'authorization_code':
+            if (!oauthInfo.appInfo.confidential) {
+                if (oauthInfo.inputData.client_secret)
+                    return failOAuth(403, 'unauthorized_client', `client_secret is being passed; the application ${appId} is not declared as a confidential application; it must not contain and pass its client_secret using the ${grantType} grant.`, callback);
+                if (!oauthInfo.inputData.code_verifier)
+                    return failOAuth(403, 'unauthorized_client', `the application ${appId} is not declared as a confidential application, thus it must use PKCE to request access tokens via grant ${grantType}.`, callback);
+            } else {
+                if (!oauthInfo.inputData.client_secret)
+                    return failOAuth(400, 'unauthorized_client', 'client_secret is missing.', callback);
+            }
+            break;
+        // Same rules as for the password grant; devices are often public clients.
+        case DEVICE_CODE_GRANT_TYPE:
+        case JWT_BEARER_GRANT_TYPE:
+        case TOKEN_EXCHANGE_GRANT_TYPE:
+            if (!oauthInfo.appInfo.confidential) {
+                if (oauthInfo.inputData.client_secret)
+                    return failOAuth(403, 'unauthorized_client', `client_secret is being passed; the application ${appId} is not declared as a confidential application; it must not contain and pass its client_secret using the ${grantType} grant.`, callback);
+            } else {
+                if (!oauthInfo.inputData.client_secret)
+                    return failOAuth(403, 'unauthorized_client', `client_secret is missing; the application ${appId} is declared as a confidential application; it must pass its client_secret using the ${grantType} grant.`, callback);
+            }
+            break;
+        // This grant *requires* a confidential client, i.e. one which is able
         // to store secrets confidentially (not an app or SPA).
         case 'client_credentials':
-        case 'authorization_code':
             if (!oauthInfo.appInfo.confidential)
                 return failOAuth(403, 'unauthorized_client', `the application ${appId} is not declared as a confidential application, thus cannot request access tokens via grant ${grantType}.`, callback);
             if (!oauthInfo.inputData.client_secret)
@@ -787,7 +905,9 @@ function getTokenRequest(grantType: string, oauthInfo: TokenOAuthInfo, callback:
             tokenBody = {
                 grant_type: grantType,
                 client_id: oauthInfo.inputData.client_id,
-                client_secret: oauthInfo.inputData.client_secret,
+                // Kong always wants the client_secret; public clients have been verified
+                // via PKCE instead, so we pass in the secret from the subscription.
+                client_secret: oauthInfo.appInfo.confidential ? oauthInfo.inputData.client_secret : oauthInfo.subsInfo.clientSecret,
                 code: oauthInfo.inputData.code,
                 redirect_uri: oauthInfo.appInfo.redirectUri
             };
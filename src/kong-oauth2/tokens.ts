@@ -1,6 +1,6 @@
 'use strict';
 
-import { TokenInfoCallback, SimpleCallback, TokenInfo, KongTokenInfo } from "../common/types";
+import { TokenInfoCallback, SimpleCallback, TokenInfo, KongTokenInfo, StringCallback } from "../common/types";
 
 const async = require('async');
 const { debug, info, warn, error } = require('portal-env').Logger('portal-auth:tokens');
@@ -9,6 +9,7 @@ const fs = require('fs');
 
 import { utils } from '../common/utils';
 import { kongUtils }  from './kong-utils';
+import { jwtAccessTokens } from '../common/jwt-access-tokens';
 import { failOAuth, failJson } from '../common/utils-fail';
 
 export const tokens = {
@@ -42,6 +43,36 @@ export const tokens = {
         });
     },
 
+    getCredentialIdByClientId: function (clientId: string, callback: StringCallback) {
+        debug('getCredentialIdByClientId()');
+        kongUtils.kongGet('oauth2?client_id=' + qs.escape(clientId), function (err, resultList) {
+            if (err) {
+                return failJson(500, 'could not retrieve oauth2 credentials from Kong', err, callback);
+            }
+
+            if (resultList.total <= 0 || !resultList.data || resultList.data.length <= 0) {
+                return failJson(404, 'not found', callback);
+            }
+
+            return callback(null, resultList.data[0].id);
+        });
+    },
+
+    getClientIdByCredentialId: function (credentialId: string, callback: StringCallback) {
+        debug('getClientIdByCredentialId()');
+        kongUtils.kongGet('oauth2?id=' + qs.escape(credentialId), function (err, resultList) {
+            if (err) {
+                return failJson(500, 'could not retrieve oauth2 credentials from Kong', err, callback);
+            }
+
+            if (resultList.total <= 0 || !resultList.data || resultList.data.length <= 0) {
+                return failJson(404, 'not found', callback);
+            }
+
+            return callback(null, resultList.data[0].client_id);
+        });
+    },
+
     deleteTokensByAccessToken: function (accessToken: string, callback: SimpleCallback) {
         debug('deleteTokensByAccessToken()');
         tokens.deleteTokens(accessToken, null, callback);
@@ -59,7 +90,12 @@ export const tokens = {
         // the tokens are gathered (either directly, a single token, or by a user id)
         const kongDeleteTokens = function (tokenList: string[]) {
             async.mapSeries(tokenList, function (token: string, callback: SimpleCallback) {
-                kongUtils.kongDelete('oauth2_tokens/' + qs.escape(token), callback);
+                // A JWT access token issued for the Kong token is not valid anymore either
+                jwtAccessTokens.denyByKongToken(token, function (err) {
+                    if (err)
+                        return callback(err);
+                    kongUtils.kongDelete('oauth2_tokens/' + qs.escape(token), callback);
+                });
             }, function (err, results) {
                 if (err) {
                     return failJson(500, 'Deleting tokens failed. See log for details.', callback);
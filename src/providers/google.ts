@@ -23,6 +23,7 @@ export class GoogleIdP implements IdentityProvider {
     private authMethodConfig: GoogleIdpConfig;
     private options: IdpOptions;
 
+    private authenticateSettings: any;
     private authenticateWithGoogle: ExpressHandler;
     private authenticateCallback: ExpressHandler;
 
@@ -53,6 +54,7 @@ export class GoogleIdP implements IdentityProvider {
             callbackURL: callbackUrl
         }, this.verifyProfile));
 
+        this.authenticateSettings = authenticateSettings;
         this.authenticateWithGoogle = passport.authenticate(authMethodId, authenticateSettings);
         this.authenticateCallback = passport.authenticate(authMethodId, authenticateSettings);
 
@@ -67,10 +69,15 @@ export class GoogleIdP implements IdentityProvider {
         return this.genericFlow.getRouter();
     }
 
-    public authorizeWithUi(req, res, authRequest: AuthRequest) {
+    public authorizeWithUi(req, res, next, authRequest: AuthRequest) {
         // Do your thing...
         // Redirect to the Google login page
-        return this.authenticateWithGoogle(req, res);
+        if (authRequest.login_hint) {
+            // Google supports the login_hint itself
+            const loginHintSettings = Object.assign({ loginHint: authRequest.login_hint }, this.authenticateSettings);
+            return passport.authenticate(this.authMethodId, loginHintSettings)(req, res, next);
+        }
+        return this.authenticateWithGoogle(req, res, next);
     };
 
     public endpoints(): EndpointDefinition[] {
@@ -38,7 +38,7 @@ export class LocalIdP implements IdentityProvider {
 
     public authorizeWithUi(req, res, next, authRequest: AuthRequest) {
         // Render a login mask...
-        this.renderLogin(req, res, null);
+        this.renderLogin(req, res, null, authRequest.login_hint);
     }
 
     public authorizeByUserPass(user, pass, callback: AuthResponseCallback) {
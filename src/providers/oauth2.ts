@@ -24,6 +24,7 @@ export class OAuth2IdP implements IdentityProvider {
     private options: IdpOptions;
     private authMethodConfig: OAuth2IdpConfig;
 
+    private authenticateSettings: any;
     private authenticateWithOAuth2: ExpressHandler;
     private authenticateCallback: ExpressHandler;
 
@@ -61,18 +62,19 @@ export class OAuth2IdP implements IdentityProvider {
             passReqToCallback: true
         }, this.verifyProfile);
 
-        if (authMethodConfig.resource || authMethodConfig.params) {
-            let params: any = {};
-            if (authMethodConfig.params)
-                params = Object.assign({}, authMethodConfig.params);
-            if (authMethodConfig.resource)
-                params.resource = authMethodConfig.resource;
-
-            // ADFS Mode
-            oauthStrategy.authorizationParams = function (option) {
-                return params;
-            };
-        }
+        let params: any = {};
+        if (authMethodConfig.params)
+            params = Object.assign({}, authMethodConfig.params);
+        // ADFS Mode
+        if (authMethodConfig.resource)
+            params.resource = authMethodConfig.resource;
+
+        oauthStrategy.authorizationParams = function (option) {
+            // The login_hint of the authorization request is passed on (see authorizeWithUi)
+            if (option.loginHint)
+                return Object.assign({ login_hint: option.loginHint }, params);
+            return params;
+        };
 
         oauthStrategy.userProfile = function (accessToken, done) {
             done(null, accessToken);
@@ -90,6 +92,7 @@ export class OAuth2IdP implements IdentityProvider {
             failureRedirect: `${options.basePath}/failure`
         };
 
+        this.authenticateSettings = authenticateSettings;
         this.authenticateWithOAuth2 = passport.authenticate(authMethodId, authenticateSettings);
         this.authenticateCallback = passport.authenticate(authMethodId, authenticateSettings);
 
@@ -151,6 +154,10 @@ export class OAuth2IdP implements IdentityProvider {
      */
     public authorizeWithUi(req, res, next, authRequest: AuthRequest) {
         // Do your thing...
+        if (authRequest.login_hint) {
+            const loginHintSettings = Object.assign({ loginHint: authRequest.login_hint }, this.authenticateSettings);
+            return passport.authenticate(this.authMethodId, loginHintSettings)(req, res, next);
+        }
         return this.authenticateWithOAuth2(req, res);
     };
 